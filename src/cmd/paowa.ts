@@ -1,9 +1,22 @@
 #!/usr/bin/env bun
 import "dotenv/config";
 import * as path from "path";
-import { Bot, PluginLoader, ConfigLoader } from "../core";
+import { breadc } from "breadc";
+import {
+    Bot,
+    PluginLoader,
+    ConfigLoader,
+    VirtualClient,
+    ConsoleAdapter,
+    type ConfigFormat,
+} from "../core";
+
+interface StartOptions {
+    /** 使用控制台适配器代替 NapCat 连接 */
+    console?: boolean;
+}
 
-async function main() {
+async function main(options: StartOptions = {}) {
     // 插件目录
     let pluginDir = process.env.PLUGIN_DIR || path.join(process.cwd(), "plugins");
     // 配置目录
@@ -12,18 +25,33 @@ async function main() {
     pluginDir = path.resolve(pluginDir);
     configDir = path.resolve(configDir);
 
-    const bot = new Bot(pluginDir, configDir);
+    const virtualClient = options.console ? new VirtualClient() : null;
+    const bot = new Bot(pluginDir, configDir, virtualClient?.asNapLink());
 
-    const configLoader = new ConfigLoader(bot, configDir);
-    configLoader.start();
+    // 新建配置文件的格式：json / yaml / toml
+    const configFormat = (process.env.CONFIG_FORMAT || "json") as ConfigFormat;
+    const configLoader = new ConfigLoader(bot, configDir, configFormat);
+    await configLoader.start();
 
     const loader = new PluginLoader(bot, pluginDir, configLoader);
 
-    // 启动热重载加载器
-    loader.start();
+    // 启动热重载加载器，等待所有插件加载完成
+    await loader.start();
 
-    // 启动机器人
+    // 启动机器人，获取登录信息后开始处理消息
     await bot.start();
+
+    if (virtualClient) {
+        new ConsoleAdapter(bot, virtualClient).start();
+    }
 }
 
-main().catch(console.error);
+const cli = breadc("paowa");
+
+cli.command("", "Start the bot").action(() => main());
+
+cli.command("dev", "Start the bot for local development")
+    .option("--console", "Use the console adapter instead of connecting to NapCat")
+    .action((options) => main({ console: options.console }));
+
+cli.run(process.argv.slice(2)).catch(console.error);
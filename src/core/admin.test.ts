@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import * as os from "os";
+import * as path from "path";
+import { createAdminPlugin } from "./admin";
+import { ConfigLoader } from "./config-loader";
+import { PluginLoader } from "./loader";
+import { createTestHarness } from "./testing";
+import { definePlugin } from "./utils";
+
+async function adminHarness() {
+    const dir = os.tmpdir();
+    const secret = definePlugin({
+        meta: { name: "secret", version: "1.0.0" },
+        config: { token: "hunter2" },
+    });
+    const harness = await createTestHarness({ plugins: [secret] });
+    const configLoader = new ConfigLoader(harness.bot, dir);
+    const loader = new PluginLoader(harness.bot, path.join(dir, "plugins"), configLoader);
+    await harness.registerPlugin(createAdminPlugin(harness.bot, loader, configLoader));
+    harness.bot.config.permission.superusers.push(1);
+    return harness;
+}
+
+describe("admin commands", () => {
+    test("require superusers, group owners included", async () => {
+        const harness = await adminHarness();
+        await harness.simulateMessage({ text: "plugin list", userId: 2, groupId: 3, role: "owner" });
+        harness.expectReply("需要 superuser 权限，当前为 owner");
+
+        await harness.simulateMessage({ text: "plugin list", userId: 1, groupId: 3 });
+        harness.expectReply("插件列表");
+    });
+
+    test("are only listed in help for superusers", async () => {
+        const harness = await adminHarness();
+        await harness.simulateMessage({ text: "help", userId: 2, groupId: 3, role: "owner" });
+        harness.expectReply("命令列表");
+        expect(JSON.stringify(harness.lastReply)).not.toContain("plugin list");
+
+        await harness.simulateMessage({ text: "help", userId: 1, groupId: 3 });
+        harness.expectReply("plugin list");
+    });
+
+    test("config get only shows config in private chat", async () => {
+        const harness = await adminHarness();
+        await harness.simulateMessage({ text: "config get secret", userId: 1, groupId: 3 });
+        harness.expectReply("该命令仅限私聊使用");
+        expect(JSON.stringify(harness.sent)).not.toContain("hunter2");
+
+        await harness.simulateMessage({ text: "config get secret token", userId: 1 });
+        harness.expectReply("token = hunter2");
+    });
+});
@@ -0,0 +1,259 @@
+import { z } from "zod";
+import type { Bot, Context } from "./bot";
+import type { PluginLoader } from "./loader";
+import { CORE_CONFIG_NAME, type ConfigLoader } from "./config-loader";
+import { Plugin, createCommand, serviceName } from "./types";
+import { arg } from "./args";
+import { formatValue, getPath, isSafePath, parseValue, schemaComments, setPath } from "./config-format";
+
+/** 不允许禁用的插件，避免管理命令本身不可用 */
+const protectedPlugins = ["admin"];
+
+function pluginStatus(bot: Bot, ctx: Context, pluginName: string): string {
+    const config = bot.config.permission;
+    if (config.disabledPlugins.includes(pluginName)) return "已禁用";
+    if (ctx.is_group) {
+        const group = config.groups[ctx.group_id.toString()];
+        if (group?.disabledPlugins?.includes(pluginName)) return "本群已禁用";
+    }
+    return "已启用";
+}
+
+/**
+ * 修改核心配置中的禁用插件列表并保存，重启后仍然生效
+ */
+function setPluginEnabled(
+    loader: ConfigLoader,
+    pluginName: string,
+    enabled: boolean,
+    groupId?: number
+): string | null {
+    const config = loader.getStoredConfig(CORE_CONFIG_NAME);
+    const key = groupId
+        ? `permission.groups.${groupId}.disabledPlugins`
+        : "permission.disabledPlugins";
+    const disabled: string[] = getPath(config, key) ?? [];
+    const next = enabled
+        ? disabled.filter((name) => name !== pluginName)
+        : [...new Set([...disabled, pluginName])];
+    setPath(config, key, next);
+    return loader.setConfig(CORE_CONFIG_NAME, config);
+}
+
+function formatInfo(bot: Bot, ctx: Context, plugin: Plugin): string {
+    const { meta } = plugin;
+    const lines = [`[${meta.name}] v${meta.version}`];
+    if (meta.description) lines.push(meta.description);
+    lines.push(`状态：${pluginStatus(bot, ctx, meta.name)}`);
+    if (meta.scope) lines.push(`作用域：${meta.scope}`);
+    if (meta.dependencies?.length) lines.push(`依赖：${meta.dependencies.map(serviceName).join("、")}`);
+    if (meta.provides?.length) lines.push(`提供服务：${meta.provides.map(serviceName).join("、")}`);
+
+    const commands = [...bot.commands.values()].filter((cmd) => cmd.pluginName === meta.name);
+    if (commands.length > 0) {
+        lines.push("命令：");
+        for (const cmd of commands) lines.push(`  ${cmd.name}`);
+    }
+
+    if (plugin.config && typeof plugin.config === "object") {
+        const comments = schemaComments(plugin.configSchema);
+        const keys = Object.keys(plugin.config);
+        if (keys.length > 0) {
+            lines.push("配置项：");
+            for (const key of keys) {
+                lines.push(`  ${key}${comments[key] ? "  " + comments[key] : ""}`);
+            }
+        }
+    }
+    if (plugin.groupConfigKeys.length > 0) {
+        lines.push(`群配置项：${plugin.groupConfigKeys.join("、")}`);
+    }
+    return lines.join("\n");
+}
+
+const groupOption = z.object({
+    group: z.coerce
+        .number()
+        .int()
+        .optional()
+        .meta({ alias: "g" })
+        .describe("群号，不指定时全局生效"),
+});
+
+/**
+ * 内置管理插件，超级用户可在聊天中管理插件与配置
+ * 所有命令要求 superuser 等级，群主虽然是 owner 等级也不能管理全局插件
+ */
+export function createAdminPlugin(bot: Bot, loader: PluginLoader, configLoader: ConfigLoader): Plugin {
+    return new Plugin({
+        meta: {
+            name: "admin",
+            version: "1.0.0",
+            description: "插件与配置管理",
+        },
+        commands: [
+            createCommand({
+                name: "plugin list",
+                description: "列出所有插件",
+                permission: "superuser",
+                handler: (ctx) => {
+                    const lines = ["插件列表："];
+                    for (const plugin of bot.plugins.values()) {
+                        const name = plugin.meta.name;
+                        const builtin = loader.isLoaded(name) ? "" : "（内置）";
+                        lines.push(
+                            `  ${name} v${plugin.meta.version}${builtin} - ${pluginStatus(bot, ctx, name)}`
+                        );
+                    }
+                    ctx.reply.text(lines.join("\n"));
+                },
+            }),
+            createCommand({
+                name: "plugin enable <name>",
+                description: "启用插件",
+                permission: "superuser",
+                args: [z.string().describe("插件名")],
+                options: groupOption,
+                handler: (ctx, [name], { group }) => {
+                    const error = setPluginEnabled(configLoader, name, true, group);
+                    if (error) {
+                        ctx.reply.text(`保存失败：\n${error}`);
+                        return;
+                    }
+                    ctx.reply.text(group ? `已在群 ${group} 启用插件 ${name}` : `已启用插件 ${name}`);
+                },
+            }),
+            createCommand({
+                name: "plugin disable <name>",
+                description: "禁用插件",
+                permission: "superuser",
+                args: [z.string().describe("插件名")],
+                options: groupOption,
+                handler: (ctx, [name], { group }) => {
+                    if (protectedPlugins.includes(name)) {
+                        ctx.reply.text(`插件 ${name} 不能被禁用`);
+                        return;
+                    }
+                    if (!bot.plugins.has(name)) {
+                        ctx.reply.text(`插件不存在：${name}`);
+                        return;
+                    }
+                    const error = setPluginEnabled(configLoader, name, false, group);
+                    if (error) {
+                        ctx.reply.text(`保存失败：\n${error}`);
+                        return;
+                    }
+                    ctx.reply.text(group ? `已在群 ${group} 禁用插件 ${name}` : `已禁用插件 ${name}`);
+                },
+            }),
+            createCommand({
+                name: "plugin reload <name>",
+                description: "重新加载插件",
+                permission: "superuser",
+                args: [z.string().describe("插件名")],
+                handler: async (ctx, [name]) => {
+                    if (!(await loader.reload(name))) {
+                        ctx.reply.text(`插件不存在或为内置插件：${name}`);
+                        return;
+                    }
+                    ctx.reply.text(
+                        bot.plugins.has(name) ? `已重新加载插件 ${name}` : `插件 ${name} 加载失败，请查看日志`
+                    );
+                },
+            }),
+            createCommand({
+                name: "plugin info <name>",
+                description: "查看插件详情",
+                permission: "superuser",
+                args: [z.string().describe("插件名")],
+                handler: (ctx, [name]) => {
+                    const plugin = bot.plugins.get(name);
+                    if (!plugin) {
+                        ctx.reply.text(`插件不存在：${name}`);
+                        return;
+                    }
+                    ctx.reply.text(formatInfo(bot, ctx, plugin));
+                },
+            }),
+            createCommand({
+                name: "middleware list",
+                description: "按执行顺序列出中间件与出站中间件",
+                permission: "superuser",
+                handler: (ctx) => {
+                    const lines = ["中间件："];
+                    for (const stage of ["before", "around", "after"] as const) {
+                        const chain = bot.listMiddlewares(stage);
+                        if (chain.length === 0) continue;
+                        lines.push(`[${stage}]`);
+                        for (const m of chain) {
+                            const owner = m.pluginName ? `（${m.pluginName}）` : "";
+                            lines.push(`  ${m.name}${owner} 优先级 ${m.priority}`);
+                        }
+                    }
+                    const outbound = bot.outbound.list();
+                    if (outbound.length > 0) {
+                        lines.push("[outbound]");
+                        for (const m of outbound) {
+                            const owner = m.pluginName ? `（${m.pluginName}）` : "";
+                            lines.push(`  ${m.name}${owner} 优先级 ${m.priority}`);
+                        }
+                    }
+                    ctx.reply.text(lines.join("\n"));
+                },
+            }),
+            createCommand({
+                name: "config get <name> [key]",
+                description: `查看插件配置，${CORE_CONFIG_NAME} 为机器人核心配置`,
+                permission: "superuser",
+                // 配置中可能有密钥等敏感信息，不在群聊中显示
+                scope: "private",
+                args: [z.string().describe("插件名"), z.string().optional().describe("配置项")],
+                handler: (ctx, [name, key]) => {
+                    const config =
+                        name === CORE_CONFIG_NAME ? bot.config : bot.plugins.get(name)?.config;
+                    if (config === undefined) {
+                        ctx.reply.text(`插件不存在或没有配置：${name}`);
+                        return;
+                    }
+                    if (!key) {
+                        ctx.reply.text(JSON.stringify(config, null, 2));
+                        return;
+                    }
+                    const value = getPath(config, key);
+                    ctx.reply.text(
+                        value === undefined ? `配置项不存在：${key}` : `${key} = ${formatValue(value)}`
+                    );
+                },
+            }),
+            createCommand({
+                name: "config set <name> <key> [...value]",
+                description: "修改插件配置并保存到配置文件，值可以是 JSON",
+                permission: "superuser",
+                args: [
+                    z.string().describe("插件名"),
+                    z.string().describe("配置项"),
+                    arg.rest().describe("值"),
+                ],
+                handler: (ctx, [name, key, text]) => {
+                    if (name !== CORE_CONFIG_NAME && !bot.plugins.has(name)) {
+                        ctx.reply.text(`插件不存在：${name}`);
+                        return;
+                    }
+                    if (!isSafePath(key)) {
+                        ctx.reply.text(`配置项无效：${key}`);
+                        return;
+                    }
+                    const config = configLoader.getStoredConfig(name);
+                    const value = parseValue(text);
+                    setPath(config, key, value);
+                    const error = configLoader.setConfig(name, config);
+                    if (error) {
+                        ctx.reply.text(`配置无效：\n${error}`);
+                        return;
+                    }
+                    ctx.reply.text(`已设置 ${key} = ${formatValue(value)}`);
+                },
+            }),
+        ],
+    });
+}
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+import type { ImageSegment } from "@naplink/naplink";
+import { arg, restoreTokens, toArgv, tokenize } from "./args";
+import { MessageSegment } from "./reply";
+
+const text = (text: string): MessageSegment => ({ type: "text", data: { text } });
+
+describe("tokenize", () => {
+    test("splits text on whitespace", () => {
+        expect(tokenize([text("  ban  123\t10m ")])).toEqual(["ban", "123", "10m"]);
+    });
+
+    test("supports quotes and escapes", () => {
+        expect(tokenize([text(`say "hello world" 'a b' “中 文” a\\ b ""`)])).toEqual([
+            "say",
+            "hello world",
+            "a b",
+            "中 文",
+            "a b",
+            "",
+        ]);
+    });
+
+    test("treats quotes inside a word as text", () => {
+        expect(tokenize([text("don't stop")])).toEqual(["don't", "stop"]);
+    });
+
+    test("keeps non-text segments as tokens", () => {
+        const at: MessageSegment = { type: "at", data: { qq: "123" } };
+        expect(tokenize([text("kick"), at, text("now")])).toEqual(["kick", at, "now"]);
+    });
+
+    test("placeholders round-trip through argv", () => {
+        const at: MessageSegment = { type: "at", data: { qq: "123" } };
+        const tokens = tokenize([text("kick "), at]);
+        const argv = toArgv(tokens);
+        expect(argv[0]).toBe("kick");
+        expect(restoreTokens(argv, tokens)).toEqual(["kick", at]);
+    });
+});
+
+describe("arg", () => {
+    const at: MessageSegment = { type: "at", data: { qq: "123" } };
+
+    test("user accepts a mention or a QQ number", () => {
+        expect(arg.user().parse(at)).toBe(123);
+        expect(arg.user().parse("456")).toBe(456);
+        expect(arg.user().safeParse("alice").success).toBe(false);
+    });
+
+    test("image only accepts image segments", () => {
+        const image: ImageSegment = { type: "image", data: { file: "a.png" } };
+        expect(arg.image().parse(image)).toEqual(image);
+        expect(arg.image().safeParse(at).success).toBe(false);
+    });
+
+    test("rest joins the remaining tokens", () => {
+        expect(arg.rest().parse(["hello", at, "world"])).toBe("hello @123 world");
+    });
+});
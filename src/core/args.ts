@@ -0,0 +1,147 @@
+import { z } from "zod";
+import type { AtSegment, ImageSegment } from "@naplink/naplink";
+import { MessageSegment } from "./reply";
+
+/**
+ * 参数词元，文本为字符串，非文本消息段（@、图片等）保持原样
+ */
+export type Token = string | MessageSegment;
+
+// breadc 只接受字符串参数，非文本消息段以占位符传入，解析后再还原
+const placeholderPrefix = "\uE000seg:";
+
+// 引号对，仅在词元开头时视为引号，避免 don't 之类的文本被截断
+const quotePairs: Record<string, string> = {
+    '"': '"',
+    "'": "'",
+    "“": "”",
+};
+
+/**
+ * 将消息段切分为参数词元
+ * - 文本按空白切分，支持 "..." / '...' / “...” 引号与 \ 转义
+ * - 非文本消息段单独作为一个词元
+ */
+export function tokenize(message: MessageSegment[]): Token[] {
+    const tokens: Token[] = [];
+    let current = "";
+    let hasToken = false; // 区分空字符串 "" 与无词元
+    let quote: string | null = null;
+    let escaping = false;
+
+    const flush = () => {
+        if (hasToken) tokens.push(current);
+        current = "";
+        hasToken = false;
+    };
+
+    for (const seg of message) {
+        if (seg.type !== "text") {
+            flush();
+            quote = null;
+            escaping = false;
+            tokens.push(seg);
+            continue;
+        }
+        for (const char of seg.data.text) {
+            if (escaping) {
+                current += char;
+                hasToken = true;
+                escaping = false;
+            } else if (char === "\\") {
+                escaping = true;
+            } else if (quote) {
+                if (char === quote) {
+                    quote = null;
+                } else {
+                    current += char;
+                }
+            } else if (quotePairs[char] && !hasToken) {
+                quote = quotePairs[char];
+                hasToken = true;
+            } else if (/\s/.test(char)) {
+                flush();
+            } else {
+                current += char;
+                hasToken = true;
+            }
+        }
+    }
+    if (escaping) current += "\\";
+    flush();
+    return tokens;
+}
+
+/**
+ * 将词元转换为 breadc 可接受的参数列表
+ */
+export function toArgv(tokens: Token[]): string[] {
+    return tokens.map((token, i) => (typeof token === "string" ? token : placeholderPrefix + i));
+}
+
+/**
+ * 将 breadc 返回的参数中的占位符还原为消息段
+ */
+export function restoreTokens(value: any, tokens: Token[]): any {
+    if (Array.isArray(value)) {
+        return value.map((v) => restoreTokens(v, tokens));
+    }
+    if (typeof value === "string" && value.startsWith(placeholderPrefix)) {
+        return tokens[Number(value.slice(placeholderPrefix.length))];
+    }
+    return value;
+}
+
+function tokenToText(token: Token): string {
+    if (typeof token === "string") return token;
+    switch (token.type) {
+        case "text":
+            return token.data.text;
+        case "at":
+            return `@${token.data.qq}`;
+        default:
+            return `[${token.type}]`;
+    }
+}
+
+/**
+ * 命令参数的 zod 辅助函数
+ */
+export const arg = {
+    /**
+     * 用户，可以是 @ 或 QQ 号，解析为 QQ 号
+     */
+    user() {
+        return z.preprocess((value) => {
+            if (typeof value === "object" && (value as AtSegment)?.type === "at") {
+                const qq = (value as AtSegment).data.qq;
+                return qq === "all" ? value : Number(qq);
+            }
+            if (typeof value === "string" && /^\d+$/.test(value)) {
+                return Number(value);
+            }
+            return value;
+        }, z.number({ error: "需要 @ 一名用户或输入 QQ 号" }).int().positive());
+    },
+
+    /**
+     * 图片消息段
+     */
+    image() {
+        return z.custom<ImageSegment>(
+            (value) => typeof value === "object" && (value as ImageSegment)?.type === "image",
+            { error: "需要一张图片" }
+        );
+    },
+
+    /**
+     * 剩余的所有参数，以空格拼接为字符串，用于 [...rest] 形式的参数
+     */
+    rest() {
+        return z.preprocess((value) => {
+            if (value === undefined) return value;
+            const tokens: Token[] = Array.isArray(value) ? value : [value];
+            return tokens.map(tokenToText).join(" ");
+        }, z.string());
+    },
+};
@@ -0,0 +1,42 @@
+import { describe, expect, test } from "bun:test";
+import * as os from "os";
+import { Bot } from "./bot";
+import { createTestHarness } from "./testing";
+import { VirtualClient } from "./transport";
+import { defineService, definePlugin } from "./utils";
+
+const Counter = defineService<{ count: number }>("counter");
+
+describe("services", () => {
+    test("services registered in onLoad are removed with their plugin", async () => {
+        const plugin = definePlugin({
+            meta: { name: "counter", version: "1.0.0", provides: [Counter] },
+            onLoad: (bot) => {
+                bot.registerService(Counter, { count: 0 });
+                bot.registerService("undeclared", true);
+            },
+        });
+        const harness = await createTestHarness({ plugins: [plugin] });
+        expect(harness.bot.getService(Counter)).toEqual({ count: 0 });
+        expect(harness.bot.getService<boolean>("undeclared")).toBe(true);
+
+        await harness.bot.unregisterPlugin("counter");
+        expect(harness.bot.getService(Counter)).toBeUndefined();
+        expect(harness.bot.getService("undeclared")).toBeUndefined();
+    });
+
+    test("services registered outside plugins are kept", async () => {
+        const harness = await createTestHarness();
+        harness.bot.registerService("global", 1);
+        await harness.bot.unregisterPlugin("help");
+        expect(harness.bot.getService<number>("global")).toBe(1);
+    });
+});
+
+describe("Bot", () => {
+    test("builtin plugins are registered when the constructor returns", () => {
+        const bot = new Bot(os.tmpdir(), os.tmpdir(), new VirtualClient().asNapLink());
+        expect([...bot.plugins.keys()]).toEqual(["help", "storage"]);
+        expect(bot.client).toBeDefined();
+    });
+});
@@ -1,17 +1,5 @@
 import { NapLink, MessageEvent, GroupMessageEvent } from "@naplink/naplink";
-import {
-    TextSegment,
-    AtSegment,
-    FaceSegment,
-    ReplySegment,
-    ImageSegment,
-    RecordSegment,
-    VideoSegment,
-    FileSegment,
-    JsonSegment,
-    XmlSegment,
-    MarkdownSegment,
-} from "@naplink/naplink";
+import { AtSegment } from "@naplink/naplink";
 import {
     Command,
     Plugin,
@@ -19,24 +7,86 @@ import {
     parseCommandBasename,
     BotMiddleware,
     MiddlewareMeta,
+    BotConfig,
+    defaultBotConfig,
+    Listener,
+    normalizeRateLimit,
+    ServiceRef,
+    ServiceToken,
+    serviceName,
+    MiddlewareSpec,
+    MiddlewareStage,
+    ActiveMiddleware,
+    BeforeMiddleware,
+    AfterMiddleware,
 } from "./types";
 import { breadc, type Breadc, ParseError } from "breadc";
 import { z } from "zod";
 import { Logger, withScope } from "./logger";
+import { PermissionManager } from "./permission";
+import { RateLimiter } from "./ratelimit";
+import { Scheduler } from "./scheduler";
+import { OutboundPipeline } from "./outbound";
+import { Storage, createStoragePlugin } from "./storage";
+import {
+    Session,
+    SessionManager,
+    SessionAbortError,
+    PromptOptions,
+    PromptResult,
+} from "./session";
+import { createEventContext } from "./event";
+import { ReplyContext, MessageSegment } from "./reply";
+import { createNapLinkClient } from "./transport";
+import { Token, tokenize, toArgv, restoreTokens } from "./args";
+import { createHelpPlugin } from "./help";
+import { commandOptions, formatOption, describeSchema, formatUsage } from "./command";
+
+interface AttachedListener {
+    event: string;
+    fn: (data: any) => Promise<void>;
+}
+
+const middlewareStages: MiddlewareStage[] = ["before", "around", "after"];
+
+interface RegisteredMiddleware extends ActiveMiddleware {
+    handler: MiddlewareSpec["handler"];
+}
 
 export class Bot {
     public client: NapLink;
     public plugins: Map<string, Plugin> = new Map();
-    public commands: Map<string, Command<any>> = new Map();
+    public commands: Map<string, Command<any, any>> = new Map();
     public pluginsDir: string;
     public configDir: string;
+    public config: BotConfig = defaultBotConfig();
+    public permission: PermissionManager;
+    public rateLimiter: RateLimiter;
+    public sessions: SessionManager;
+    public scheduler: Scheduler;
+    public storage: Storage;
+    /** 出站消息管道，所有通过 client 发送的消息都会经过 */
+    public outbound: OutboundPipeline = new OutboundPipeline((pluginName, groupId) =>
+        this.permission.isPluginEnabled(pluginName, groupId)
+    );
     private services: Map<string, any> = new Map();
-    private middlewares: BotMiddleware[] = [];
+    /** 服务名 -> 注册该服务的插件名 */
+    private serviceOwners: Map<string, string> = new Map();
+    /** 正在执行 onLoad / onReady 的插件，期间注册的服务归属于该插件 */
+    private hookPlugin?: Plugin;
+    private middlewares: RegisteredMiddleware[] = [];
     private messageHandlers: Map<string, MessageHandler[]> = new Map();
+    private listeners: Map<string, AttachedListener[]> = new Map();
     private cli: Breadc;
     private logger: Logger;
     private __id: number = 0;
     private __nickname: string = "";
+    /** 插件加载完成且已获取登录信息，此前收到的消息与事件会被忽略 */
+    private __ready: boolean = false;
+    private initializing?: Promise<void>;
+    public get ready() {
+        return this.__ready;
+    }
     public get id() {
         return this.__id;
     }
@@ -44,51 +94,84 @@ export class Bot {
         return this.__nickname;
     }
 
-    constructor(pluginsDir: string, configDir: string) {
+    /**
+     * @param client 机器人使用的客户端，默认连接 NAPCAT_URL，可传入 VirtualClient 离线运行
+     */
+    constructor(pluginsDir: string, configDir: string, client?: NapLink) {
         this.pluginsDir = pluginsDir;
         this.configDir = configDir;
-        const logger = withScope("NapLink");
         this.logger = withScope("Bot");
-        this.client = new NapLink({
-            connection: {
-                url: process.env.NAPCAT_URL || "ws://localhost:3001",
-                token: process.env.NAPCAT_TOKEN,
-            },
-            logging: {
-                logger: {
-                    debug: function (message: string, ...meta: any[]): void {
-                        logger.debug(message, ...meta);
-                    },
-                    info: function (message: string, ...meta: any[]): void {
-                        logger.info(message, ...meta);
-                    },
-                    warn: function (message: string, ...meta: any[]): void {
-                        logger.warn(message, ...meta);
-                    },
-                    error: function (message: string, error?: Error, ...meta: any[]): void {
-                        logger.error(message, error, ...meta);
-                    },
-                },
-            },
-        });
+        this.permission = new PermissionManager(this);
+        this.rateLimiter = new RateLimiter(this);
+        this.sessions = new SessionManager(this);
+        this.scheduler = new Scheduler(this);
+        this.storage = new Storage();
+        this.useMiddleware({ name: "ratelimit", handler: this.rateLimiter.middleware });
+        this.client = client ?? createNapLinkClient();
+        this.outbound.install(this.client);
         // 初始化 breadc
         this.cli = breadc("bot", {});
         this.setupListeners();
+        // 内置插件没有生命周期钩子，同步注册，构造函数返回时即可使用
+        for (const plugin of [createHelpPlugin(this), createStoragePlugin(this)]) {
+            this.logger.info(`Registering plugin: ${plugin.meta.name}`);
+            plugin.storage = this.storage.namespace(plugin.meta.name);
+            this.attachPlugin(plugin, this.normalizeHandlers(plugin));
+        }
     }
 
     private setupListeners() {
         this.client.on("message.group", async (data) => {
-            const ctx = new Context(this.client, data, true);
+            if (!this.__ready) return;
+            const ctx = new Context(this.client, data, true, this);
             ctx.is_at_self = this.isSelfMentioned(ctx);
             await this.handleMessage(ctx);
         });
 
         this.client.on("message.private", async (data) => {
-            const ctx = new Context(this.client, data, false);
+            if (!this.__ready) return;
+            const ctx = new Context(this.client, data, false, this);
             await this.handleMessage(ctx);
         });
     }
 
+    private createListenerContext(event: string, data: any) {
+        if (data?.post_type === "message") {
+            const isGroup = data.message_type === "group";
+            const ctx = new Context(this.client, data, isGroup, this);
+            if (isGroup) ctx.is_at_self = this.isSelfMentioned(ctx);
+            return ctx;
+        }
+        return createEventContext(this, event, data);
+    }
+
+    private attachListeners(plugin: Plugin) {
+        const attached: AttachedListener[] = plugin.listeners.map((listener: Listener) => {
+            const fn = async (data: any) => {
+                if (!this.__ready) return;
+                if (!this.permission.isPluginEnabled(plugin.meta.name, data?.group_id)) return;
+                try {
+                    await listener.handler(this.createListenerContext(listener.event, data) as any);
+                } catch (e) {
+                    this.logger.error(
+                        `Listener error in ${plugin.meta.name} (${listener.event}):`,
+                        e
+                    );
+                }
+            };
+            this.client.on(listener.event, fn);
+            return { event: listener.event, fn };
+        });
+        this.listeners.set(plugin.meta.name, attached);
+    }
+
+    private detachListeners(pluginName: string) {
+        for (const { event, fn } of this.listeners.get(pluginName) ?? []) {
+            this.client.off(event, fn);
+        }
+        this.listeners.delete(pluginName);
+    }
+
     private isSelfMentioned(ctx: Context): boolean {
         const selfId = this.id;
         if (!selfId) return false;
@@ -97,54 +180,151 @@ export class Bot {
         );
     }
 
+    /**
+     * 依次经过 before 阶段的中间件后分发消息
+     */
     private async handleMessage(ctx: Context) {
-        const selfId = this.id;
-
-        // 从 message 段提取文本
-        const messageTexts: string[] = ctx.message.map((seg) => {
-            if (seg.type === "text") {
-                return (seg as any).data?.text || "";
+        const chain = this.activeMiddlewares(ctx, "before");
+        const run = async (index: number): Promise<void> => {
+            if (index < chain.length) {
+                await (chain[index].handler as BeforeMiddleware)(ctx, () => run(index + 1));
+            } else {
+                await this.dispatchMessage(ctx);
             }
-            return seg.toString();
-        });
+        };
+        try {
+            await run(0);
+        } catch (e) {
+            this.logger.error("Message handling error:", e);
+        }
+    }
 
-        // Trim 首尾空白，并处理纯空白行
-        let content = messageTexts.join(" ").trim();
-        if (!content) return;
+    private async dispatchMessage(ctx: Context) {
+        const selfId = this.id;
+
+        // 0. 优先交给等待中的会话
+        if (this.sessions.dispatch(ctx)) return;
 
         // 如果开头是 @self，剔除
-        if (ctx.is_at_self && ctx.message.length > 0) {
-            const firstSeg = ctx.message[0];
+        let segments = ctx.message;
+        if (ctx.is_at_self && segments.length > 0) {
+            const firstSeg = segments[0];
             if (firstSeg.type === "at" && (firstSeg as AtSegment).data.qq === selfId.toString()) {
-                content = messageTexts.slice(1).join(" ").trim();
-                if (!content) return;
+                segments = segments.slice(1);
             }
         }
 
-        const argv = content.split(/\s+/);
+        // 切分参数，非文本消息段以占位符交给 breadc
+        const tokens = tokenize(segments);
+        if (tokens.length === 0) return;
 
         // 1. 尝试匹配命令
+        const commandTokens = this.matchCommandPrefix(ctx, tokens);
+        if (commandTokens && (await this.handleCommand(ctx, commandTokens))) return;
+
+        // 2. 遍历 MessageHandlers
+        for (const [pluginName, handlers] of this.messageHandlers) {
+            for (const handlerObj of handlers) {
+                if (handlerObj.scope === "private" && ctx.is_group) continue;
+                if (handlerObj.scope === "group" && !ctx.is_group) continue;
+
+                const meta: MiddlewareMeta = {
+                    type: "message",
+                    pluginName: pluginName,
+                    permission: handlerObj.permission,
+                    rateLimit: handlerObj.rateLimit,
+                };
+                // 无权限的消息处理器直接跳过，不回复提示
+                if (!this.permission.check(ctx, meta).allowed) continue;
+
+                try {
+                    ctx.pluginName = pluginName;
+                    await this.runMiddleware(ctx, meta, async () => {
+                        const intercepted = await handlerObj.handler(ctx);
+                        if (intercepted === true) {
+                            if (ctx.reply_message.length > 0) await ctx.reply.commit();
+                            ctx.isHandled = true;
+                        }
+                    });
+
+                    if (ctx.isHandled) return;
+                } catch (e) {
+                    if (e instanceof SessionAbortError) {
+                        await ctx.reply.text(e.message).commit();
+                        return;
+                    }
+                    this.logger.error(`Handler error in ${pluginName}:`, e);
+                }
+            }
+        }
+    }
+
+    /**
+     * 检查命令前缀与 @ 要求，返回去掉前缀后的词元，不是命令时返回 null
+     * @ 机器人时前缀可省略
+     */
+    private matchCommandPrefix(ctx: Context, tokens: Token[]): Token[] | null {
+        const config = this.config.command;
+        const group = ctx.is_group ? config.groups[ctx.group_id.toString()] : undefined;
+        const prefixes = group?.prefixes ?? config.prefixes;
+        const requireAt = group?.requireAt ?? config.requireAt;
+
+        if (ctx.is_group && requireAt && !ctx.is_at_self) return null;
+
+        // 优先匹配较长的前缀
+        const [first, ...rest] = tokens;
+        const prefix =
+            typeof first === "string"
+                ? [...prefixes]
+                      .sort((a, b) => b.length - a.length)
+                      .find((p) => p && first.startsWith(p))
+                : undefined;
+        if (prefix !== undefined) {
+            const stripped = (first as string).slice(prefix.length);
+            return stripped ? [stripped, ...rest] : rest;
+        }
+
+        if (prefixes.length === 0 || prefixes.includes("") || ctx.is_at_self) return tokens;
+        return null;
+    }
+
+    /**
+     * 尝试将消息作为命令执行，返回是否已处理
+     */
+    private async handleCommand(ctx: Context, tokens: Token[]): Promise<boolean> {
+        const argv = toArgv(tokens);
+
         try {
             // breadc.run 会直接返回 action 的 return 值
             const match = await this.cli.run(argv);
 
             // 如果 match 存在且包含我们定义的指令信息
             if (match && typeof match === "object" && "cmd" in match) {
-                const { cmd, rawArgs } = match as { cmd: any; rawArgs: any[] };
+                const { cmd } = match as { cmd: any };
+                const rawArgs: any[] = restoreTokens((match as any).rawArgs, tokens);
+                const rawOptions: Record<string, any> = Object.fromEntries(
+                    Object.entries((match as any).rawOptions).map(([k, v]) => [
+                        k,
+                        restoreTokens(v, tokens),
+                    ])
+                );
+
+                ctx.pluginName = cmd.pluginName;
 
                 // 作用域检查
                 if (cmd.scope === "private" && ctx.is_group) {
-                    ctx.reply.text("该命令仅限私聊使用").commit();
-                    return;
+                    await ctx.reply.text("该命令仅限私聊使用").commit();
+                    return true;
                 }
                 if (cmd.scope === "group" && !ctx.is_group) {
-                    ctx.reply.text("该命令仅限群聊使用").commit();
-                    return;
+                    await ctx.reply.text("该命令仅限群聊使用").commit();
+                    return true;
                 }
 
                 const executeCommand = async () => {
                     // 参数校验与转换逻辑
                     let validatedArgs: any;
+                    let validatedOptions: any;
                     try {
                         if (Array.isArray(cmd.args)) {
                             // 如果定义的是元组/数组，逐个校验
@@ -155,11 +335,15 @@ export class Bot {
                             // 如果定义的是单参数，直接校验第一个
                             validatedArgs = cmd.args.parse(rawArgs[0]);
                         }
+                        if (cmd.options) {
+                            validatedOptions = cmd.options.parse(rawOptions);
+                        }
                     } catch (e) {
                         if (e instanceof z.ZodError) {
                             ctx.reply.text("Invalid arguments:");
                             for (const err of e.issues) {
-                                ctx.reply.text(`\n- ${err.message}`);
+                                const path = err.path.length > 0 ? `${err.path.join(".")}: ` : "";
+                                ctx.reply.text(`\n- ${path}${err.message}`);
                             }
                             await ctx.reply.commit();
                             return;
@@ -171,49 +355,52 @@ export class Bot {
                     this.logger.info(
                         `Executing command: ${cmd.name} ${
                             validatedArgs ? "args: " + JSON.stringify(validatedArgs) : ""
-                        }`
+                        } ${validatedOptions ? "options: " + JSON.stringify(validatedOptions) : ""}`
                     );
-                    await cmd.handler(ctx, validatedArgs);
+                    try {
+                        await cmd.handler(ctx, validatedArgs, validatedOptions);
+                    } catch (e) {
+                        if (!(e instanceof SessionAbortError)) throw e;
+                        ctx.reply.text(e.message);
+                    }
 
                     if (ctx.reply_message.length > 0) {
                         await ctx.reply.commit();
                     }
                 };
 
-                const runMiddleware = async (
-                    index: number,
-                    meta: MiddlewareMeta,
-                    next: () => Promise<void>
-                ) => {
-                    if (index < this.middlewares.length) {
-                        await this.middlewares[index](ctx, meta, () =>
-                            runMiddleware(index + 1, meta, next)
-                        );
-                    } else {
-                        await next();
-                    }
+                const meta: MiddlewareMeta = {
+                    type: "command",
+                    pluginName: cmd.pluginName,
+                    commandName: cmd.name,
+                    commandAliases: cmd.aliases,
+                    permission: cmd.permission,
+                    rateLimit: cmd.rateLimit,
+                    args: rawArgs,
                 };
 
-                await runMiddleware(
-                    0,
-                    {
-                        type: "command",
-                        pluginName: cmd.pluginName,
-                        commandName: cmd.name,
-                        permission: cmd.permission,
-                        args: rawArgs,
-                    },
-                    executeCommand
-                );
-                return; // 命令已处理，直接返回
+                // 权限检查
+                const result = this.permission.check(ctx, meta);
+                if (!result.allowed) {
+                    this.logger.info(
+                        `Command ${cmd.name} denied for ${ctx.sender_id}: ${result.reason}`
+                    );
+                    if (this.config.permission.replyOnDeny) {
+                        await ctx.reply.text(`权限不足：${result.reason}`).commit();
+                    }
+                    return true;
+                }
+
+                await this.runMiddleware(ctx, meta, executeCommand);
+                return true; // 命令已处理，直接返回
             }
         } catch (e) {
             if (e instanceof ParseError) {
                 const name = parseCommandBasename(argv.join(" "));
                 for (const [fullName, cmd] of this.commands) {
                     if (fullName.startsWith(name)) {
-                        await ctx.reply.text(`Invalid command:\n${cmd.name}`).commit();
-                        return;
+                        await ctx.reply.text(`Invalid command:\n${formatUsage(cmd)}`).commit();
+                        return true;
                     }
                 }
             }
@@ -221,60 +408,60 @@ export class Bot {
                 const cmds = [];
                 for (const [c, cmd] of this.commands) {
                     if (cmd.root === argv[0]) {
-                        cmds.push(" - " + cmd.name);
+                        cmds.push(" - " + formatUsage(cmd));
                     }
                 }
                 cmds.sort();
                 await ctx.reply.text(`Usage:\n${cmds.join("\n")}`).commit();
-                return;
+                return true;
             }
             this.logger.error(e);
         }
+        return false;
+    }
 
-        // 2. 遍历 MessageHandlers
-        const runMiddleware = async (
-            index: number,
-            meta: MiddlewareMeta,
-            next: () => Promise<void>
-        ) => {
-            if (index < this.middlewares.length) {
-                await this.middlewares[index](ctx, meta, () =>
-                    runMiddleware(index + 1, meta, next)
-                );
+    /**
+     * 指定阶段中所属插件未被禁用的中间件
+     */
+    private activeMiddlewares(ctx: Context, stage: MiddlewareStage): RegisteredMiddleware[] {
+        const groupId = ctx.is_group ? ctx.group_id : undefined;
+        return this.middlewares.filter(
+            (m) => m.stage === stage && this.permission.isPluginEnabled(m.pluginName, groupId)
+        );
+    }
+
+    /**
+     * 执行 around 阶段的中间件链，处理器执行并处理了消息后再执行 after 阶段的中间件
+     */
+    private async runMiddleware(
+        ctx: Context,
+        meta: MiddlewareMeta,
+        next: () => Promise<void>
+    ): Promise<void> {
+        // 取快照，避免执行过程中插件卸载导致链变化
+        const chain = this.activeMiddlewares(ctx, "around");
+        const after = this.activeMiddlewares(ctx, "after");
+        let executed = false;
+        const run = async (index: number): Promise<void> => {
+            if (index < chain.length) {
+                await (chain[index].handler as BotMiddleware)(ctx, meta, () => run(index + 1));
             } else {
                 await next();
+                executed = true;
             }
         };
-
-        for (const [pluginName, handlers] of this.messageHandlers) {
-            for (const handlerObj of handlers) {
-                if (handlerObj.scope === "private" && ctx.is_group) continue;
-                if (handlerObj.scope === "group" && !ctx.is_group) continue;
-
-                try {
-                    await runMiddleware(
-                        0,
-                        {
-                            type: "message",
-                            pluginName: pluginName,
-                            permission: handlerObj.permission,
-                        },
-                        async () => {
-                            const intercepted = await handlerObj.handler(ctx);
-                            if (intercepted === true) {
-                                if (ctx.reply_message.length > 0) await ctx.reply.commit();
-                                ctx.isHandled = true;
-                            }
-                        }
-                    );
-
-                    if (ctx.isHandled) return;
-                } catch (e) {
-                    this.logger.error(`Handler error in ${pluginName}:`, e);
-                }
+        await run(0);
+
+        if (!executed || (meta.type === "message" && !ctx.isHandled)) return;
+        for (const middleware of after) {
+            try {
+                await (middleware.handler as AfterMiddleware)(ctx, meta);
+            } catch (e) {
+                this.logger.error(`After middleware error (${middleware.name}):`, e);
             }
         }
     }
+
     public registerCommand() {
         if (this.commands.size > 0) {
             this.logger.info("Registering commands...");
@@ -297,251 +484,288 @@ export class Bot {
 
                     this.logger.info(`- ${cmd.name}`);
                     this.logger.info(`  ${cmd.description}`);
-                    this.commands.set(cmd.name, cmd);
 
                     // 将命令元数据包装
                     const fullCmd = { ...cmd, pluginName: plugin.meta.name };
+                    this.commands.set(cmd.name, fullCmd);
 
                     // 注册到 breadc
-                    // breadc 的 action 接收参数，最后一个通常是 options
-                    this.cli.command(cmd.name, cmd.description).action((...args: any[]) => {
-                        // 排除掉 breadc 自动添加的最后一个 options 对象
+                    const command = this.cli.command(cmd.name, cmd.description);
+                    for (const alias of cmd.aliases ?? []) {
+                        command.alias(alias);
+                    }
+                    for (const [key, schema] of commandOptions(cmd)) {
+                        command.option(formatOption(key, schema), describeSchema(schema));
+                    }
+                    // breadc 的 action 接收参数，最后一个是 options
+                    command.action((...args: any[]) => {
                         const rawArgs = args.slice(0, -1);
+                        // 去掉 breadc 附加的 "--" 与未传入的选项，交给 zod 处理默认值
+                        const { "--": _, ...options } = args[args.length - 1] ?? {};
+                        const rawOptions = Object.fromEntries(
+                            Object.entries(options).filter(([, v]) => v !== undefined)
+                        );
                         // 返回给 cli.run
-                        return { cmd: fullCmd, rawArgs };
+                        return { cmd: fullCmd, rawArgs, rawOptions };
                     });
                 });
             }
         }
     }
 
-    public registerService(name: string, service: any) {
+    /**
+     * 注册服务，服务应在提供方插件的 meta.provides 中声明
+     * 在插件的 onLoad 或 onReady 中注册的服务归属于该插件，插件卸载时自动移除
+     */
+    public registerService<T>(token: ServiceToken<T> | string, service: T) {
+        const name = serviceName(token);
         this.services.set(name, service);
+        const owner = this.hookPlugin;
+        if (owner) {
+            this.serviceOwners.set(name, owner.meta.name);
+            if (!(owner.meta.provides ?? []).some((ref) => serviceName(ref) === name)) {
+                this.logger.warn(`Plugin ${owner.meta.name} registered undeclared service: ${name}`);
+            }
+        } else {
+            this.serviceOwners.delete(name);
+        }
         this.logger.info(`Service registered: ${name}`);
     }
 
-    public getService<T>(name: string): T | undefined {
-        return this.services.get(name);
+    public getService<T>(token: ServiceToken<T> | string): T | undefined {
+        return this.services.get(serviceName(token));
     }
 
-    public useMiddleware(middleware: BotMiddleware) {
-        this.middlewares.push(middleware);
+    public removeService(token: ServiceRef) {
+        const name = serviceName(token);
+        this.serviceOwners.delete(name);
+        if (this.services.delete(name)) {
+            this.logger.info(`Service removed: ${name}`);
+        }
+    }
+
+    /**
+     * 注册中间件，直接传入函数时为 around 阶段
+     * @param pluginName 所属插件，插件注销时自动移除
+     */
+    public useMiddleware(middleware: BotMiddleware | MiddlewareSpec, pluginName?: string) {
+        const spec: MiddlewareSpec =
+            typeof middleware === "function" ? { handler: middleware } : middleware;
+        this.middlewares.push({
+            name: spec.name || spec.handler.name || "anonymous",
+            stage: spec.stage ?? "around",
+            priority: spec.priority ?? 0,
+            pluginName,
+            handler: spec.handler,
+        });
+        // 按阶段与优先级排序，sort 是稳定的，相同优先级保持注册顺序
+        this.middlewares.sort(
+            (a, b) =>
+                middlewareStages.indexOf(a.stage) - middlewareStages.indexOf(b.stage) ||
+                b.priority - a.priority
+        );
     }
 
-    public registerPlugin(plugin: Plugin, isReload: boolean = false) {
+    /**
+     * 按执行顺序列出当前的中间件链，用于调试
+     */
+    public listMiddlewares(stage?: MiddlewareStage): ActiveMiddleware[] {
+        return this.middlewares
+            .filter((m) => !stage || m.stage === stage)
+            .map(({ name, stage, priority, pluginName }) => ({ name, stage, priority, pluginName }));
+    }
+
+    /**
+     * 注册插件，等待 onLoad 完成后插件才开始处理消息
+     * onLoad 抛出错误时插件不会被注册，错误由调用方处理
+     */
+    public async registerPlugin(plugin: Plugin, isReload: boolean = false) {
         if (!isReload) {
             this.logger.info(`Registering plugin: ${plugin.meta.name}`);
         }
-        plugin.onLoad?.(this);
+        plugin.storage = this.storage.namespace(plugin.meta.name);
+        // 在 onLoad 之前校验，配置无效时 onLoad 的副作用不会残留
+        const handlers = this.normalizeHandlers(plugin);
+        if (plugin.onLoad) await this.runHook(plugin, plugin.onLoad);
+        this.attachPlugin(plugin, handlers);
+        if (this.__ready) await this.readyPlugin(plugin);
+    }
 
-        if (plugin.messageHandlers) {
-            this.messageHandlers.set(plugin.meta.name, plugin.messageHandlers);
+    /**
+     * 合并消息处理器的 cooldown 到 rateLimit，保证限流配置对象在插件生命周期内稳定
+     * @throws 限流配置无效时
+     */
+    private normalizeHandlers(plugin: Plugin): MessageHandler[] {
+        return (plugin.messageHandlers ?? []).map((handler) => ({
+            ...handler,
+            rateLimit: normalizeRateLimit(handler),
+        }));
+    }
+
+    /**
+     * 挂载插件的中间件、消息处理器、监听器与定时任务，不执行生命周期钩子
+     */
+    private attachPlugin(plugin: Plugin, handlers: MessageHandler[]) {
+        for (const middleware of plugin.middlewares) {
+            this.useMiddleware(middleware, plugin.meta.name);
+        }
+        for (const middleware of plugin.outbound) {
+            this.outbound.use(middleware, plugin.meta.name);
         }
+        if (handlers.length > 0) {
+            this.messageHandlers.set(plugin.meta.name, handlers);
+        }
+        if (plugin.listeners && plugin.listeners.length > 0) {
+            this.attachListeners(plugin);
+        }
+        this.scheduler.registerPlugin(plugin);
         this.plugins.set(plugin.meta.name, plugin);
     }
 
-    public unregisterPlugin(pluginName: string, isReload: boolean = false) {
+    public async unregisterPlugin(pluginName: string, isReload: boolean = false) {
         if (!isReload) {
             this.logger.info(`Unregistering plugin: ${pluginName}`);
         }
         if (!this.plugins.has(pluginName)) return;
         const plugin = this.plugins.get(pluginName)!;
-        plugin.onUnload?.();
         this.plugins.delete(pluginName);
         this.messageHandlers.delete(pluginName);
+        this.detachListeners(pluginName);
+        this.middlewares = this.middlewares.filter((m) => m.pluginName !== pluginName);
+        this.outbound.remove(pluginName);
+        this.scheduler.unregisterPlugin(pluginName);
+        const owned = [...this.serviceOwners].filter(([, owner]) => owner === pluginName);
+        for (const service of new Set([
+            ...(plugin.meta.provides ?? []).map(serviceName),
+            ...owned.map(([name]) => name),
+        ])) {
+            this.removeService(service);
+        }
+        try {
+            await plugin.onUnload?.();
+        } catch (e) {
+            this.logger.error(`onUnload error in ${pluginName}:`, e);
+        }
+    }
+
+    /**
+     * 执行插件的 onLoad / onReady，记录期间注册的服务的归属
+     */
+    private async runHook(plugin: Plugin, hook: (bot: Bot) => void | Promise<void>) {
+        const previous = this.hookPlugin;
+        this.hookPlugin = plugin;
+        try {
+            await hook(this);
+        } finally {
+            this.hookPlugin = previous;
+        }
+    }
+
+    private async readyPlugin(plugin: Plugin) {
+        if (!plugin.onReady) return;
+        try {
+            await this.runHook(plugin, plugin.onReady);
+        } catch (e) {
+            this.logger.error(`onReady error in ${plugin.meta.name}:`, e);
+        }
     }
 
     public async start() {
         this.logger.info("Bot starting...");
         try {
             await this.client.connect();
+            await this.initialize();
+        } catch (error) {
+            this.logger.error("Failed to connect, waiting for reconnect:", error);
+        }
+        // 首次启动失败时，NapLink 重连成功后再完成启动，避免一直丢弃消息
+        this.client.on("connect", () => {
+            if (this.__ready) return;
+            this.initialize().catch((error) => {
+                this.logger.error("Failed to start after reconnect:", error);
+            });
+        });
+    }
+
+    /**
+     * 获取登录信息并调用插件的 onReady，完成后开始处理消息
+     * 并发调用时共用同一次初始化
+     */
+    private initialize(): Promise<void> {
+        if (this.__ready) return Promise.resolve();
+        this.initializing ??= (async () => {
             const loginInfo = await this.client.getLoginInfo();
             this.__id = loginInfo.user_id;
             this.__nickname = loginInfo.nickname;
             this.logger.info(`Bot started with self ID: ${loginInfo.user_id}`);
-        } catch (error) {
-            this.logger.error("Failed to connect:", error);
-        }
+            for (const plugin of [...this.plugins.values()]) {
+                await this.readyPlugin(plugin);
+            }
+            this.__ready = true;
+        })().finally(() => {
+            this.initializing = undefined;
+        });
+        return this.initializing;
     }
 }
-export type MessageSegment =
-    | TextSegment
-    | AtSegment
-    | FaceSegment
-    | ReplySegment
-    | ImageSegment
-    | RecordSegment
-    | VideoSegment
-    | FileSegment
-    | JsonSegment
-    | XmlSegment
-    | MarkdownSegment;
-
-export class Context {
-    public client: NapLink;
+export class Context extends ReplyContext {
+    public bot: Bot;
     public raw: MessageEvent; // 原始事件数据
-    public sender_id: number;
-    public group_id: number;
-    public is_group: boolean;
     public is_at_self: boolean = false; // 消息是否 @ 了机器人
     public message: MessageSegment[] = [];
-    public reply_message: MessageSegment[] = [];
     public isHandled: boolean = false;
-    private _isSending: boolean = false;
-    private _recallTimeout: number = -1;
+    /** 正在处理该消息的插件名 */
+    public pluginName?: string;
     private _recallSenderTimeout: number = -1;
 
     public recallSender(timeout: number = 0) {
         this._recallSenderTimeout = timeout;
     }
-    public get reply() {
-        const self = this;
-        return {
-            commit: async () => {
-                if (self.reply_message.length === 0 || self._isSending) return;
-                var result: { message_id: number } = { message_id: 0 };
-                self._isSending = true;
-                try {
-                    const msgCopy = [...self.reply_message]; // 拷贝当前消息栈
-                    self.reply_message = []; // 立即清空，防止重发
 
-                    if (self.is_group) {
-                        result = await self.client.sendGroupMessage(self.group_id, msgCopy);
-                    } else {
-                        result = await self.client.sendPrivateMessage(self.sender_id, msgCopy);
-                    }
-                } finally {
-                    self._isSending = false;
-                    if (self._recallTimeout > 0 && result.message_id) {
-                        setTimeout(() => {
-                            self.client.deleteMessage(result.message_id);
-                        }, self._recallTimeout);
-                    }
-                    if (self._recallSenderTimeout >= 0 && result.message_id) {
-                        setTimeout(() => {
-                            self.client.deleteMessage(self.raw.message_id);
-                        }, self._recallSenderTimeout);
-                    }
-                }
-            },
-            recall: (timeout: number) => {
-                self._recallTimeout = timeout;
-            },
-            text: (content: string) => {
-                const msg: TextSegment = {
-                    type: "text",
-                    data: {
-                        text: content,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            at: (user_id: number | null = null) => {
-                if (!self.is_group) {
-                    return self.reply;
-                }
-                const msg: AtSegment = {
-                    type: "at",
-                    data: {
-                        qq: user_id ? user_id.toString() : self.sender_id.toString(),
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            face: (id: number) => {
-                const msg: FaceSegment = {
-                    type: "face",
-                    data: {
-                        id: id.toString(),
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            image: (file: string, summary?: string, sub_type?: string) => {
-                const msg: ImageSegment = {
-                    type: "image",
-                    data: {
-                        file: file,
-                        summary: summary,
-                        sub_type: sub_type,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            record: (file: string) => {
-                const msg: RecordSegment = {
-                    type: "record",
-                    data: {
-                        file: file,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            video: (file: string) => {
-                const msg: VideoSegment = {
-                    type: "video",
-                    data: {
-                        file: file,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            file: (file: string, name?: string) => {
-                const msg: FileSegment = {
-                    type: "file",
-                    data: {
-                        file: file,
-                        name: name,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            json: (json: any) => {
-                const msg: JsonSegment = {
-                    type: "json",
-                    data: {
-                        data: JSON.stringify(json),
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            xml: (xml: string) => {
-                const msg: XmlSegment = {
-                    type: "xml",
-                    data: {
-                        data: xml,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-            markdown: (content: string) => {
-                const msg: MarkdownSegment = {
-                    type: "markdown",
-                    data: {
-                        content: content,
-                    },
-                };
-                self.reply_message.push(msg);
-                return self.reply;
-            },
-        };
+    protected get quoteId(): number | undefined {
+        return this.raw.message_id;
     }
-    constructor(client: NapLink, event: MessageEvent, isGroup: boolean) {
+
+    protected afterSend(message_id: number) {
+        if (this._recallSenderTimeout >= 0) {
+            setTimeout(() => {
+                this.client.deleteMessage(this.raw.message_id);
+            }, this._recallSenderTimeout);
+        }
+    }
+
+    /**
+     * 当前插件在当前群中生效的配置，私聊时为全局配置
+     */
+    public get config(): any {
+        const plugin = this.pluginName ? this.bot.plugins.get(this.pluginName) : undefined;
+        return plugin?.configFor(this.is_group ? this.group_id : undefined);
+    }
+
+    /**
+     * 当前用户在当前会话（群或私聊）中的会话
+     */
+    public get session(): Session {
+        return new Session(this.bot.sessions, this);
+    }
+
+    /**
+     * 发送提示并等待用户回答，等同于 ctx.session.prompt
+     * @example
+     * const age = await ctx.prompt("你几岁了？", { schema: z.coerce.number().int() });
+     */
+    public prompt<T extends z.ZodType<any> | undefined = undefined>(
+        text: string,
+        options?: PromptOptions<T>
+    ): Promise<PromptResult<T>> {
+        return this.session.prompt(text, options);
+    }
+
+    constructor(client: NapLink, event: MessageEvent, isGroup: boolean, bot: Bot) {
         const groupMessage = event as GroupMessageEvent;
+        super(client, event.sender.user_id ?? 0, isGroup ? groupMessage.group_id : 0, isGroup);
+        this.bot = bot;
         this.raw = event;
-        this.sender_id = event.sender.user_id ?? 0;
-        this.group_id = isGroup ? groupMessage.group_id : 0;
-        this.is_group = isGroup;
-        this.client = client;
         this.message = event.message;
     }
 }
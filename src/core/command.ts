@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { Command } from "./types";
+
+/**
+ * 去掉 optional / default / nullable 等包装，返回内部的 schema
+ */
+export function unwrapSchema(schema: z.ZodType<any>): z.ZodType<any> {
+    let current: any = schema;
+    while (
+        current?.def?.innerType &&
+        ["optional", "default", "nullable", "prefault", "catch", "readonly"].includes(
+            current.def.type
+        )
+    ) {
+        current = current.def.innerType;
+    }
+    return current;
+}
+
+/**
+ * 获取 schema 的描述，包装层与内部 schema 上的描述均可
+ */
+export function describeSchema(schema: z.ZodType<any>): string {
+    return schema.description ?? unwrapSchema(schema).description ?? "";
+}
+
+/**
+ * 获取命令选项的 schema 列表
+ */
+export function commandOptions(cmd: Command<any, any>): [string, z.ZodType<any>][] {
+    if (!cmd.options) return [];
+    return Object.entries((cmd.options as z.ZodObject<any>).shape);
+}
+
+/**
+ * 生成 breadc 格式的选项声明
+ * 布尔类型为开关 --flag，其余为 --name <name>，可通过 .meta({ alias: "n" }) 设置短选项
+ *
+ * 例如：times: z.coerce.number().meta({ alias: "n" }) => "-n, --times <times>"
+ */
+export function formatOption(key: string, schema: z.ZodType<any>): string {
+    const name = key.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase());
+    const alias = (schema.meta() as { alias?: string } | undefined)?.alias;
+    const isFlag = unwrapSchema(schema) instanceof z.ZodBoolean;
+    const long = isFlag ? `--${name}` : `--${name} <${name}>`;
+    return alias ? `-${alias}, ${long}` : long;
+}
+
+/**
+ * 生成命令的用法说明，包含选项列表
+ */
+export function formatUsage(cmd: Command<any, any>): string {
+    const lines = [cmd.name];
+    for (const [key, schema] of commandOptions(cmd)) {
+        const description = describeSchema(schema);
+        lines.push(`    ${formatOption(key, schema)}${description ? "  " + description : ""}`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * 从命令名中提取参数声明，例如 "ban <user> [minutes]" => ["<user>", "[minutes]"]
+ */
+export function parseArgLabels(name: string): string[] {
+    return name.match(/<[^>]+>|\[[^\]]+\]/g) ?? [];
+}
+
+/**
+ * 生成命令的详细说明，包含参数与选项的描述
+ */
+export function formatHelp(cmd: Command<any, any>): string {
+    const lines = [cmd.name];
+    if (cmd.description) lines.push(cmd.description);
+    if (cmd.aliases && cmd.aliases.length > 0) {
+        lines.push(`别名：${cmd.aliases.join("、")}`);
+    }
+
+    const schemas: z.ZodType<any>[] = Array.isArray(cmd.args)
+        ? cmd.args
+        : cmd.args
+        ? [cmd.args]
+        : [];
+    const labels = parseArgLabels(cmd.name);
+    if (labels.length > 0) {
+        lines.push("参数：");
+        labels.forEach((label, i) => {
+            const description = schemas[i] ? describeSchema(schemas[i]) : "";
+            lines.push(`    ${label}${description ? "  " + description : ""}`);
+        });
+    }
+
+    const options = commandOptions(cmd);
+    if (options.length > 0) {
+        lines.push("选项：");
+        for (const [key, schema] of options) {
+            const description = describeSchema(schema);
+            lines.push(`    ${formatOption(key, schema)}${description ? "  " + description : ""}`);
+        }
+    }
+    return lines.join("\n");
+}
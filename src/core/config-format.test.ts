@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { deletePath, getPath, parseConfig, setPath, stringifyConfig } from "./config-format";
+
+describe("TOML", () => {
+    test("round-trips nested config", () => {
+        const config = {
+            name: "bot",
+            "key with space": 1,
+            enabled: true,
+            tags: ["a", "b"],
+            reply: { quote: false, longMessage: { maxLength: 2000 } },
+        };
+        expect(parseConfig(stringifyConfig(config, "toml"), "toml")).toEqual(config);
+    });
+
+    test("keeps comments and key order of the original", () => {
+        const original = "# 名称\nname = \"bot\"\n\n# 数量\ncount = 1\n";
+        const output = stringifyConfig({ count: 2, name: "bot" }, "toml", original);
+        expect(output).toContain("# 名称");
+        expect(output).toContain("# 数量");
+        expect(output.indexOf("name")).toBeLessThan(output.indexOf("count"));
+        expect(parseConfig(output, "toml")).toEqual({ name: "bot", count: 2 });
+    });
+
+    test("comments new keys", () => {
+        const output = stringifyConfig({ limit: 3 }, "toml", undefined, { limit: "上限" });
+        expect(output).toContain("# 上限");
+    });
+});
+
+/**
+ * 在原文件上修改 TOML，并断言结果解析后与修改后的配置一致
+ */
+function edit(original: string, change: (config: any) => void): string {
+    const config = parseConfig(original, "toml");
+    change(config);
+    const output = stringifyConfig(config, "toml", original);
+    expect(parseConfig(output, "toml")).toEqual(config);
+    return output;
+}
+
+describe("TOML editing", () => {
+    test("arrays of tables", () => {
+        const original = [
+            "# 名称",
+            'name = "bot"',
+            "",
+            "[[servers]]",
+            'host = "a"',
+            "",
+            "[[servers]]",
+            'host = "b"',
+            "",
+        ].join("\n");
+        expect(edit(original, (config) => (config.name = "paowa"))).toContain("# 名称");
+        expect(edit(original, (config) => (config.servers[1].host = "c"))).toContain('"c"');
+        edit(original, (config) => config.servers.push({ host: "d" }));
+    });
+
+    test("dotted keys", () => {
+        const original = "a.b = 1 # 注释\n\n[table]\nx.y = 2\n";
+        const changed = edit(original, (config) => (config.a.b = 3));
+        expect(changed).toContain("a.b = 3 # 注释");
+        const added = edit(original, (config) => {
+            config.a.c = 4;
+            config.table.x.z = 5;
+        });
+        expect(added).toContain("a.c = 4");
+        expect(added).toContain("x.z = 5");
+        edit(original, (config) => delete config.a.b);
+    });
+
+    test("multi-line strings and arrays", () => {
+        const original = [
+            'text = """',
+            "line 1",
+            "count = 0",
+            '"""',
+            "list = [",
+            "    1, # 一",
+            "    2,",
+            "]",
+            "count = 1",
+            "",
+        ].join("\n");
+        const changed = edit(original, (config) => (config.count = 2));
+        expect(changed).toContain("line 1\ncount = 0");
+        edit(original, (config) => (config.text = "single"));
+        edit(original, (config) => (config.list = [3]));
+        edit(original, (config) => delete config.list);
+    });
+
+    test("inline tables", () => {
+        const original = "# 坐标\npoint = { x = 1, y = 2 }\nafter = true\n";
+        const changed = edit(original, (config) => (config.point.x = 3));
+        expect(changed).toContain("# 坐标");
+        edit(original, (config) => (config.point.z = 4));
+        edit(original, (config) => (config.point = 5));
+    });
+
+    test("removing a table with sub-tables keeps the next table", () => {
+        const original = [
+            "[a]",
+            "x = 1",
+            "",
+            "[a.b]",
+            "y = 2",
+            "",
+            "# c 的注释",
+            "[c]",
+            "z = 3",
+            "",
+        ].join("\n");
+        const output = edit(original, (config) => delete config.a);
+        expect(output).toBe("# c 的注释\n[c]\nz = 3\n");
+        edit(original, (config) => delete config.a.b);
+        edit(original, (config) => (config.a = 1));
+    });
+
+    test("refuses to overwrite a file that cannot be parsed", () => {
+        expect(() => stringifyConfig({ a: 1 }, "toml", "a = ")).toThrow();
+    });
+
+    test("refuses values that cannot be represented", () => {
+        expect(() => stringifyConfig({ list: [1, null] }, "toml")).toThrow();
+    });
+});
+
+describe("config paths", () => {
+    test("get, set and delete nested keys", () => {
+        const config: any = {};
+        setPath(config, "a.b", 1);
+        expect(getPath(config, "a.b")).toBe(1);
+        deletePath(config, "a.b");
+        expect(config).toEqual({});
+    });
+
+    test("rejects prototype keys", () => {
+        expect(() => setPath({}, "__proto__.polluted", true)).toThrow("Invalid config path");
+        expect(() => setPath({}, "constructor.prototype.polluted", true)).toThrow();
+        expect(getPath({}, "constructor")).toBeUndefined();
+        expect(getPath({ a: {} }, "a.toString")).toBeUndefined();
+
+        const config: any = { a: { b: 1 } };
+        deletePath(config, "__proto__.toString");
+        deletePath(config, "a.__proto__");
+        expect(config).toEqual({ a: { b: 1 } });
+        expect(({} as any).polluted).toBeUndefined();
+        expect(typeof Object.prototype.toString).toBe("function");
+    });
+});
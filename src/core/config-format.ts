@@ -0,0 +1,643 @@
+import * as path from "path";
+import { z } from "zod";
+import { Document, Pair, Scalar, YAMLMap, isMap, isNode, isScalar, parseDocument } from "yaml";
+import { describeSchema, unwrapSchema } from "./command";
+
+export type ConfigFormat = "json" | "yaml" | "toml";
+
+/** 支持的配置文件扩展名，同名文件按此顺序优先 */
+export const configExtensions: Record<string, ConfigFormat> = {
+    ".json": "json",
+    ".yaml": "yaml",
+    ".yml": "yaml",
+    ".toml": "toml",
+};
+
+export const formatExtensions: Record<ConfigFormat, string> = {
+    json: ".json",
+    yaml: ".yaml",
+    toml: ".toml",
+};
+
+/**
+ * 根据扩展名判断配置格式，不支持时返回 null
+ */
+export function formatOf(filePath: string): ConfigFormat | null {
+    return configExtensions[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/** 配置项路径（以 . 连接）-> 注释 */
+export type ConfigComments = Record<string, string>;
+
+/**
+ * 从 zod schema 的描述中提取配置项注释
+ */
+export function schemaComments(schema: z.ZodType<any> | undefined): ConfigComments {
+    const comments: ConfigComments = {};
+    const walk = (schema: z.ZodType<any>, prefix: string) => {
+        const inner = unwrapSchema(schema);
+        if (!(inner instanceof z.ZodObject)) return;
+        for (const [key, child] of Object.entries(inner.shape as Record<string, z.ZodType<any>>)) {
+            const fullKey = prefix + key;
+            const description = describeSchema(child);
+            if (description) comments[fullKey] = description;
+            walk(child, fullKey + ".");
+        }
+    };
+    if (schema) walk(schema, "");
+    return comments;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function parseConfig(content: string, format: ConfigFormat): any {
+    switch (format) {
+        case "json":
+            return JSON.parse(content);
+        case "yaml":
+            return parseDocument(content).toJS() ?? {};
+        case "toml":
+            return Bun.TOML.parse(content);
+    }
+}
+
+/**
+ * 序列化配置
+ * 传入原文件内容时在原内容上修改，保留注释与键顺序；新增的键使用 comments 中的注释
+ */
+export function stringifyConfig(
+    config: any,
+    format: ConfigFormat,
+    original?: string,
+    comments: ConfigComments = {}
+): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(orderLike(config, original ? JSON.parse(original) : undefined), null, 4);
+        case "yaml":
+            return stringifyYaml(config, original, comments);
+        case "toml":
+            return stringifyToml(config, original, comments);
+    }
+}
+
+/**
+ * 按原配置的键顺序排列，新增的键排在后面
+ */
+function orderLike(value: any, original: any): any {
+    if (!isPlainObject(value) || !isPlainObject(original)) return value;
+    const keys = [
+        ...Object.keys(original).filter((key) => key in value),
+        ...Object.keys(value).filter((key) => !(key in original)),
+    ];
+    return Object.fromEntries(keys.map((key) => [key, orderLike(value[key], original[key])]));
+}
+
+/** 可修改对象原型的键，配置路径中不允许出现 */
+const unsafeKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * 路径中是否不含 __proto__ 等可修改原型的键
+ */
+export function isSafePath(key: string): boolean {
+    return key.split(".").every((k) => k !== "" && !unsafeKeys.has(k));
+}
+
+function isObject(value: any): boolean {
+    return typeof value === "object" && value !== null;
+}
+
+function ownValue(obj: any, key: string): any {
+    return isObject(obj) && Object.hasOwn(obj, key) ? obj[key] : undefined;
+}
+
+/**
+ * 读取 "a.b" 形式路径上的值，只读取自身属性
+ */
+export function getPath(obj: any, key: string): any {
+    if (!isSafePath(key)) return undefined;
+    return key.split(".").reduce((value, k) => ownValue(value, k), obj);
+}
+
+/**
+ * 设置 "a.b" 形式路径上的值，缺失的上级对象会被创建
+ * @throws 路径中包含 __proto__ 等键时
+ */
+export function setPath(obj: any, key: string, value: any) {
+    if (!isSafePath(key)) throw new Error(`Invalid config path: ${key}`);
+    const keys = key.split(".");
+    let current = obj;
+    for (const k of keys.slice(0, -1)) {
+        if (!isObject(ownValue(current, k))) current[k] = {};
+        current = current[k];
+    }
+    current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * 删除键，并清理因此变空的上级对象
+ */
+export function deletePath(obj: any, key: string) {
+    if (!isSafePath(key)) return;
+    const keys = key.split(".");
+    const parents = [obj];
+    for (const k of keys.slice(0, -1)) {
+        const next = ownValue(parents[parents.length - 1], k);
+        if (!isObject(next)) return;
+        parents.push(next);
+    }
+    delete parents[parents.length - 1][keys[keys.length - 1]];
+    for (let i = parents.length - 1; i > 0; i--) {
+        if (Object.keys(parents[i]).length > 0) break;
+        delete parents[i - 1][keys[i - 1]];
+    }
+}
+
+/**
+ * 解析聊天中输入的值，可解析为 JSON 时使用 JSON 值，否则作为字符串
+ */
+export function parseValue(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+export function formatValue(value: any): string {
+    return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// ---------------------------------------------------------------- YAML
+
+function annotateYaml(map: YAMLMap, prefix: string, comments: ConfigComments) {
+    map.items.forEach((pair, i) => {
+        const key = isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+        const comment = comments[prefix + key];
+        if (comment && isScalar(pair.key)) {
+            pair.key.commentBefore = comment.replace(/^/gm, " ");
+            if (i > 0) pair.key.spaceBefore = true;
+        }
+        if (isMap(pair.value)) annotateYaml(pair.value, prefix + key + ".", comments);
+    });
+}
+
+function applyYaml(
+    doc: Document,
+    map: YAMLMap,
+    value: Record<string, any>,
+    prefix: string,
+    comments: ConfigComments
+) {
+    for (const pair of [...map.items]) {
+        const key = isScalar(pair.key) ? pair.key.value : pair.key;
+        if (!(String(key) in value)) map.delete(pair.key);
+    }
+    const first = map.items[0]?.key;
+    if (isScalar(first)) first.spaceBefore = false;
+    for (const [key, child] of Object.entries(value)) {
+        const pair = map.items.find(
+            (p) => String(isScalar(p.key) ? p.key.value : p.key) === key
+        ) as Pair<Scalar, any> | undefined;
+
+        if (!pair) {
+            const created = doc.createPair(key, child) as Pair<Scalar, any>;
+            const holder = new YAMLMap();
+            holder.items.push(created);
+            annotateYaml(holder, prefix, comments);
+            if (created.key.commentBefore && map.items.length > 0) created.key.spaceBefore = true;
+            map.items.push(created);
+            continue;
+        }
+
+        if (isPlainObject(child) && isMap(pair.value)) {
+            applyYaml(doc, pair.value, child, prefix + key + ".", comments);
+            continue;
+        }
+        const current = isNode(pair.value) ? pair.value.toJSON() : pair.value;
+        if (isEqual(current, child)) continue;
+        const node = doc.createNode(child);
+        // 保留值上的注释
+        if (isNode(pair.value)) {
+            node.comment = pair.value.comment;
+            node.commentBefore = pair.value.commentBefore;
+        }
+        if (isMap(node)) annotateYaml(node, prefix + key + ".", comments);
+        pair.value = node;
+    }
+}
+
+function stringifyYaml(config: any, original: string | undefined, comments: ConfigComments): string {
+    const doc = original ? parseDocument(original) : new Document();
+    if (!isPlainObject(config)) {
+        doc.contents = doc.createNode(config);
+        return doc.toString();
+    }
+    if (!isMap(doc.contents)) doc.contents = new YAMLMap();
+    applyYaml(doc, doc.contents as YAMLMap, config, "", comments);
+    return doc.toString();
+}
+
+// ---------------------------------------------------------------- TOML
+
+function tomlKey(key: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function tomlValue(value: any): string {
+    if (typeof value === "string") return JSON.stringify(value);
+    if (typeof value === "number") {
+        if (Number.isNaN(value)) return "nan";
+        if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+        return String(value);
+    }
+    if (typeof value === "boolean") return String(value);
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return `[${value.map(tomlValue).join(", ")}]`;
+    if (isPlainObject(value)) {
+        const entries = Object.entries(value).filter(([, v]) => v !== null && v !== undefined);
+        if (entries.length === 0) return "{}";
+        return `{ ${entries.map(([k, v]) => `${tomlKey(k)} = ${tomlValue(v)}`).join(", ")} }`;
+    }
+    throw new Error(`Cannot represent ${value} in TOML`);
+}
+
+function tomlComment(comment: string | undefined): string[] {
+    return comment ? comment.split("\n").map((line) => `# ${line}`) : [];
+}
+
+/**
+ * 生成表的内容：先输出普通键值，再输出子表
+ */
+function emitTomlTable(
+    table: Record<string, any>,
+    tablePath: string[],
+    comments: ConfigComments
+): string[] {
+    const lines: string[] = [];
+    const subTables: [string, Record<string, any>][] = [];
+    for (const [key, value] of Object.entries(table)) {
+        if (value === null || value === undefined) continue;
+        if (isPlainObject(value)) {
+            subTables.push([key, value]);
+            continue;
+        }
+        const comment = tomlComment(comments[[...tablePath, key].join(".")]);
+        if (comment.length > 0 && lines.length > 0) lines.push("");
+        lines.push(...comment, `${tomlKey(key)} = ${tomlValue(value)}`);
+    }
+    for (const [key, value] of subTables) {
+        const childPath = [...tablePath, key];
+        if (lines.length > 0) lines.push("");
+        lines.push(...tomlComment(comments[childPath.join(".")]));
+        lines.push(`[${childPath.map(tomlKey).join(".")}]`);
+        lines.push(...emitTomlTable(value, childPath, comments));
+    }
+    return lines;
+}
+
+interface TomlEntry {
+    /** 键值所在的起止行 */
+    start: number;
+    end: number;
+}
+
+interface TomlTable {
+    /** 表头所在行，根表为 -1 */
+    header: number;
+    /** 表的最后一行（不含尾部空行） */
+    last: number;
+    /** 是否为 [[表数组]] */
+    arrayOfTables: boolean;
+}
+
+interface TomlLayout {
+    entries: Map<string, TomlEntry>;
+    tables: Map<string, TomlTable>;
+    /** 按出现顺序排列的表头行 */
+    headers: { line: number; path: string[] }[];
+}
+
+/**
+ * 解析键，例如 a."b.c".d => ["a", "b.c", "d"]，返回键与结束位置
+ */
+function parseTomlKey(text: string, start: number): { keys: string[]; end: number } | null {
+    const keys: string[] = [];
+    let i = start;
+    while (true) {
+        while (text[i] === " " || text[i] === "\t") i++;
+        const quote = text[i];
+        if (quote === '"' || quote === "'") {
+            let j = i + 1;
+            while (j < text.length && text[j] !== quote) j += quote === '"' && text[j] === "\\" ? 2 : 1;
+            if (j >= text.length) return null;
+            const raw = text.slice(i, j + 1);
+            keys.push(quote === '"' ? JSON.parse(raw) : raw.slice(1, -1));
+            i = j + 1;
+        } else {
+            const match = /^[A-Za-z0-9_-]+/.exec(text.slice(i));
+            if (!match) return null;
+            keys.push(match[0]);
+            i += match[0].length;
+        }
+        while (text[i] === " " || text[i] === "\t") i++;
+        if (text[i] !== ".") return { keys, end: i };
+        i++;
+    }
+}
+
+/**
+ * 找到值的结束位置（行号），处理多行字符串与跨行的数组 / 内联表
+ */
+function findTomlValueEnd(lines: string[], line: number, column: number): number {
+    let depth = 0;
+    let i = line;
+    let j = column;
+    let multiline: string | null = null;
+    while (i < lines.length) {
+        const text = lines[i];
+        while (j < text.length) {
+            if (multiline) {
+                if (text.startsWith(multiline, j)) {
+                    j += 3;
+                    multiline = null;
+                    continue;
+                }
+                j += multiline === '"""' && text[j] === "\\" ? 2 : 1;
+                continue;
+            }
+            const c = text[j];
+            if (text.startsWith('"""', j) || text.startsWith("'''", j)) {
+                multiline = text.slice(j, j + 3);
+                j += 3;
+            } else if (c === '"' || c === "'") {
+                j++;
+                while (j < text.length && text[j] !== c) j += c === '"' && text[j] === "\\" ? 2 : 1;
+                j++;
+            } else if (c === "#") {
+                break;
+            } else {
+                if (c === "[" || c === "{") depth++;
+                if (c === "]" || c === "}") depth--;
+                j++;
+            }
+        }
+        if (!multiline && depth <= 0) return i;
+        i++;
+        j = 0;
+    }
+    return lines.length - 1;
+}
+
+/**
+ * 扫描 TOML 文本，记录每个键值与表所在的行
+ */
+function scanToml(lines: string[]): TomlLayout {
+    const layout: TomlLayout = { entries: new Map(), tables: new Map(), headers: [] };
+    let current: string[] = [];
+    let table: TomlTable = { header: -1, last: -1, arrayOfTables: false };
+    layout.tables.set("", table);
+
+    for (let i = 0; i < lines.length; i++) {
+        const text = lines[i];
+        const trimmed = text.trim();
+        if (trimmed === "" || trimmed.startsWith("#")) continue;
+
+        if (trimmed.startsWith("[")) {
+            const arrayOfTables = trimmed.startsWith("[[");
+            const offset = text.indexOf("[") + (arrayOfTables ? 2 : 1);
+            const key = parseTomlKey(text, offset);
+            if (!key) continue;
+            current = key.keys;
+            table = { header: i, last: i, arrayOfTables };
+            layout.tables.set(current.join("\0"), table);
+            layout.headers.push({ line: i, path: current });
+            continue;
+        }
+
+        const key = parseTomlKey(text, 0);
+        if (!key || text[key.end] !== "=") continue;
+        const end = findTomlValueEnd(lines, i, key.end + 1);
+        layout.entries.set([...current, ...key.keys].join("\0"), { start: i, end });
+        table.last = end;
+        i = end;
+    }
+    return layout;
+}
+
+/**
+ * 表及其所有子表占据的行范围
+ */
+function tomlTableRange(layout: TomlLayout, tablePath: string[], lines: string[]) {
+    const index = layout.headers.findIndex((h) => h.path.join("\0") === tablePath.join("\0"));
+    let start = layout.headers[index].line;
+    // 表头上方紧挨着的注释属于该表
+    while (start > 0 && lines[start - 1].trim().startsWith("#")) start--;
+    let end = lines.length;
+    for (const header of layout.headers.slice(index + 1)) {
+        const isChild =
+            header.path.length > tablePath.length &&
+            tablePath.every((key, i) => header.path[i] === key);
+        if (!isChild) {
+            end = header.line;
+            break;
+        }
+    }
+    // 下一个表之前的空行与注释属于下一个表
+    while (end - 1 > start && /^\s*(#.*)?$/.test(lines[end - 1])) end--;
+    return { start, end };
+}
+
+/**
+ * 在原 TOML 上应用修改，无法就地修改（如涉及 [[表数组]]）时返回 false
+ */
+function applyToml(
+    lines: string[],
+    value: Record<string, any>,
+    old: Record<string, any>,
+    tablePath: string[],
+    comments: ConfigComments
+): boolean {
+    const keys = [...new Set([...Object.keys(old), ...Object.keys(value)])];
+    for (const key of keys) {
+        const keyPath = [...tablePath, key];
+        const id = keyPath.join("\0");
+        const next = value[key];
+        const prev = old[key];
+        if (isEqual(next, prev)) continue;
+
+        const layout = scanToml(lines);
+        const entry = layout.entries.get(id);
+        const table = layout.tables.get(id);
+        if (table?.arrayOfTables) return false;
+
+        if (next === undefined || next === null) {
+            if (entry) {
+                // 连同紧挨着的注释一起删除
+                let start = entry.start;
+                while (start > 0 && lines[start - 1].trim().startsWith("#")) start--;
+                lines.splice(start, entry.end - start + 1);
+            } else if (table) {
+                const range = tomlTableRange(layout, keyPath, lines);
+                lines.splice(range.start, range.end - range.start);
+            }
+            continue;
+        }
+
+        if (isPlainObject(next) && isPlainObject(prev) && !entry) {
+            if (!applyToml(lines, next, prev, keyPath, comments)) return false;
+            continue;
+        }
+
+        if (entry) {
+            const first = lines[entry.start];
+            const eq = parseTomlKey(first, 0)!.end;
+            let trailing = "";
+            if (entry.start === entry.end) {
+                // 保留行尾注释
+                const end = findTomlCommentStart(first, eq + 1);
+                if (end >= 0) trailing = " " + first.slice(end);
+            }
+            lines.splice(
+                entry.start,
+                entry.end - entry.start + 1,
+                `${first.slice(0, eq).trimEnd()} = ${tomlValue(next)}${trailing}`
+            );
+            continue;
+        }
+
+        if (table) {
+            // 原来是表，现在不是：移除整个表后作为普通键值添加
+            const range = tomlTableRange(layout, keyPath, lines);
+            lines.splice(range.start, range.end - range.start);
+        }
+        insertToml(lines, tablePath, key, next, comments);
+    }
+    return true;
+}
+
+function findTomlCommentStart(text: string, start: number): number {
+    for (let j = start; j < text.length; j++) {
+        const c = text[j];
+        if (c === '"' || c === "'") {
+            j++;
+            while (j < text.length && text[j] !== c) j += c === '"' && text[j] === "\\" ? 2 : 1;
+        } else if (c === "#") {
+            return j;
+        }
+    }
+    return -1;
+}
+
+/**
+ * 添加新的键：对象作为新表追加到文件末尾，其余追加到所在表的末尾
+ */
+function insertToml(
+    lines: string[],
+    tablePath: string[],
+    key: string,
+    value: any,
+    comments: ConfigComments
+) {
+    const keyPath = [...tablePath, key];
+    const comment = tomlComment(comments[keyPath.join(".")]);
+
+    if (isPlainObject(value)) {
+        while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+        if (lines.length > 0) lines.push("");
+        lines.push(...comment, `[${keyPath.map(tomlKey).join(".")}]`);
+        lines.push(...emitTomlTable(value, keyPath, comments));
+        return;
+    }
+
+    const layout = scanToml(lines);
+    const table = layout.tables.get(tablePath.join("\0"));
+    const line = `${tomlKey(key)} = ${tomlValue(value)}`;
+    if (!table) {
+        const dotted = insertTomlDotted(lines, layout, keyPath, value, comment);
+        if (dotted) return;
+        // 表不存在时新建
+        while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+        if (lines.length > 0) lines.push("");
+        lines.push(`[${tablePath.map(tomlKey).join(".")}]`, ...comment, line);
+        return;
+    }
+    if (table.header === -1 && table.last === -1) {
+        // 根表没有键值时插入到第一个表之前
+        const at = layout.headers.length > 0 ? layout.headers[0].line : lines.length;
+        lines.splice(at, 0, ...comment, line, ...(at < lines.length ? [""] : []));
+        return;
+    }
+    lines.splice(table.last + 1, 0, ...comment, line);
+}
+
+/**
+ * 上级表由点分隔的键定义（如 a.b = 1）时，新键同样以点分隔的键写在最后一个同级键之后
+ * @returns 上级表不是由点分隔的键定义时返回 false
+ */
+function insertTomlDotted(
+    lines: string[],
+    layout: TomlLayout,
+    keyPath: string[],
+    value: any,
+    comment: string[]
+): boolean {
+    const prefix = keyPath.slice(0, -1).join("\0") + "\0";
+    const siblings = [...layout.entries].filter(([id]) => id.startsWith(prefix));
+    if (siblings.length === 0) return false;
+    // 点分隔的键相对于其所在的表
+    let depth = keyPath.length - 1;
+    while (depth > 0 && !layout.tables.has(keyPath.slice(0, depth).join("\0"))) depth--;
+    const last = Math.max(...siblings.map(([, entry]) => entry.end));
+    const key = keyPath.slice(depth).map(tomlKey).join(".");
+    lines.splice(last + 1, 0, ...comment, `${key} = ${tomlValue(value)}`);
+    return true;
+}
+
+/**
+ * 序列化结果能否解析回预期的配置，null 与 undefined 在 TOML 中无法表示，视为不存在
+ */
+function parsesTo(content: string, config: any): boolean {
+    const normalize = (value: any) =>
+        JSON.stringify(value, (_, v) => {
+            if (v === null) return undefined;
+            return isPlainObject(v)
+                ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+                : v;
+        });
+    try {
+        return normalize(Bun.TOML.parse(content)) === normalize(config);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 在原内容上修改 TOML，无法就地修改或修改结果与预期不符时重新生成（会丢失注释）
+ * @throws 原文件无法解析，或生成的内容无法解析回 config 时
+ */
+function stringifyToml(config: any, original: string | undefined, comments: ConfigComments): string {
+    if (original !== undefined) {
+        let old: Record<string, any>;
+        try {
+            old = Bun.TOML.parse(original) as Record<string, any>;
+        } catch (err) {
+            // 不覆盖用户手动编辑出错的文件
+            throw new Error(`Cannot update invalid TOML: ${(err as Error).message}`);
+        }
+        const lines = original.replace(/\r\n/g, "\n").split("\n");
+        if (applyToml(lines, config, old, [], comments)) {
+            const content = lines.join("\n").replace(/^\n+/, "").replace(/\n*$/, "\n");
+            if (parsesTo(content, config)) return content;
+        }
+    }
+    const content = emitTomlTable(config, [], comments).join("\n") + "\n";
+    if (!parsesTo(content, config)) throw new Error("Config cannot be represented in TOML");
+    return content;
+}
@@ -0,0 +1,183 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { CORE_CONFIG_NAME, ConfigLoader } from "./config-loader";
+import { createTestHarness } from "./testing";
+import { Plugin, createCommand, defaultBotConfig } from "./types";
+import { definePlugin } from "./utils";
+
+const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "paowa-config-"));
+
+afterAll(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+const greeter = () =>
+    definePlugin({
+        meta: { name: "greeter", version: "1.0.0" },
+        configSchema: z.object({
+            greeting: z.string().default("hello"),
+            times: z.number().int().positive().default(1),
+        }),
+    });
+
+/**
+ * 不调用 start()，避免启动文件监听，通过 loadConfig 模拟文件变化
+ */
+async function loaderFor(...plugins: Plugin<any>[]) {
+    const dir = fs.mkdtempSync(path.join(rootDir, "case-"));
+    const harness = await createTestHarness({ plugins });
+    const loader = new ConfigLoader(harness.bot, dir);
+    // 与 PluginLoader 一样，加载前先应用默认配置
+    for (const plugin of plugins) loader.applyPluginConfig(plugin, loader.defaultConfig(plugin));
+    const write = (name: string, config: any) => {
+        const filePath = path.join(dir, `${name}.json`);
+        fs.writeFileSync(filePath, JSON.stringify(config));
+        loader["loadConfig"](filePath);
+        return filePath;
+    };
+    return { harness, loader, dir, write };
+}
+
+describe("core config", () => {
+    test("merges defaults into a partial config", async () => {
+        const { harness, write } = await loaderFor();
+        write(CORE_CONFIG_NAME, { reply: { quote: true } });
+        expect(harness.bot.config.reply.quote).toBe(true);
+        expect(harness.bot.config.reply.longMessage).toEqual(defaultBotConfig().reply.longMessage);
+    });
+
+    test("keeps the last valid config when a reloaded file is invalid", async () => {
+        const { harness, loader, write } = await loaderFor();
+        write(CORE_CONFIG_NAME, { permission: { superusers: [1] } });
+        write(CORE_CONFIG_NAME, { permission: { superusers: "1" }, reply: { quote: true } });
+        expect(harness.bot.config.permission.superusers).toEqual([1]);
+        expect(harness.bot.config.reply.quote).toBe(false);
+        expect(loader.getStoredConfig(CORE_CONFIG_NAME)).toEqual({ permission: { superusers: [1] } });
+    });
+
+    test("setConfig rejects invalid values without saving", async () => {
+        const { harness, loader, dir } = await loaderFor();
+        const error = loader.setConfig(CORE_CONFIG_NAME, { reply: { longMessage: { mode: "fold" } } });
+        expect(error).toContain("reply.longMessage.mode");
+        expect(harness.bot.config.reply.longMessage.mode).toBe("split");
+        expect(fs.existsSync(path.join(dir, `${CORE_CONFIG_NAME}.json`))).toBe(false);
+
+        expect(loader.setConfig(CORE_CONFIG_NAME, { rateLimit: { bypass: false } })).toBeNull();
+        expect(harness.bot.config.rateLimit.bypass).toBe(false);
+    });
+
+    test("does not overwrite an invalid file with defaults on startup", async () => {
+        const { harness, loader, dir } = await loaderFor();
+        const filePath = path.join(dir, `${CORE_CONFIG_NAME}.json`);
+        fs.writeFileSync(filePath, JSON.stringify({ session: { retries: -1 } }));
+        loader["loadBotConfig"]();
+        expect(harness.bot.config.session.retries).toBe(3);
+        expect(JSON.parse(fs.readFileSync(filePath, "utf-8"))).toEqual({ session: { retries: -1 } });
+    });
+});
+
+describe("plugin config", () => {
+    test("fills in schema defaults", async () => {
+        const { harness, loader } = await loaderFor(greeter());
+        expect(loader.setConfig("greeter", { times: 2 })).toBeNull();
+        expect(harness.bot.plugins.get("greeter")!.config).toEqual({ greeting: "hello", times: 2 });
+    });
+
+    test("keeps the last valid config when a reloaded file is invalid", async () => {
+        const { harness, loader, write } = await loaderFor(greeter());
+        write("greeter", { times: 2 });
+        write("greeter", { times: 0 });
+        expect(harness.bot.plugins.get("greeter")!.config).toEqual({ greeting: "hello", times: 2 });
+        expect(loader.getStoredConfig("greeter")).toEqual({ times: 2 });
+
+        expect(loader.setConfig("greeter", { greeting: 1 })).toContain("greeting");
+        expect(loader.getStoredConfig("greeter")).toEqual({ times: 2 });
+    });
+});
+
+describe("config reload", () => {
+    test("onConfigChange only fires when the config changes", async () => {
+        const changes: [any, any][] = [];
+        const plugin = greeter();
+        plugin.onConfigChange = (config, oldConfig) => {
+            changes.push([config, oldConfig]);
+        };
+        const { harness, write } = await loaderFor(plugin);
+        write("greeter", { times: 2 });
+        // onConfigChange 在微任务中调用
+        await harness.wait(0);
+        expect(changes).toEqual([[{ greeting: "hello", times: 2 }, { greeting: "hello", times: 1 }]]);
+
+        write("greeter", { times: 2 });
+        write("greeter", { greeting: "hello", times: 2 });
+        write("greeter", { times: 0 });
+        await harness.wait(0);
+        expect(changes).toHaveLength(1);
+    });
+
+    test("removing the file falls back to defaults", async () => {
+        const { harness, loader, write } = await loaderFor(greeter());
+        const filePath = write("greeter", { greeting: "hi" });
+        loader["removeConfig"](filePath);
+        expect(harness.bot.plugins.get("greeter")!.config).toEqual({ greeting: "hello", times: 1 });
+        expect(loader.getStoredConfig("greeter")).toEqual({});
+    });
+
+    test("plugins without defaults fall back to an empty config", async () => {
+        const plugin = definePlugin({ meta: { name: "plain", version: "1.0.0" } });
+        const { loader, write } = await loaderFor(plugin);
+        const filePath = write("plain", { key: "value" });
+        expect(plugin.config).toEqual({ key: "value" });
+        loader["removeConfig"](filePath);
+        expect(plugin.config).toEqual({});
+    });
+});
+
+describe("group overrides", () => {
+    const greet = () => {
+        const plugin = greeter();
+        plugin.commands.push(
+            createCommand({
+                name: "greet",
+                description: "打招呼",
+                handler: async (ctx) => {
+                    await ctx.reply.text(`${ctx.config.greeting} x${ctx.config.times}`).commit();
+                },
+            })
+        );
+        return plugin;
+    };
+
+    test("merge over the global config and resolve through ctx.config", async () => {
+        const plugin = greet();
+        const { harness, loader, dir } = await loaderFor(plugin);
+        expect(loader.setGroupOverride(plugin, 3, { greeting: "hi" })).toBeNull();
+        expect(fs.existsSync(path.join(dir, "greeter", "groups", "3.json"))).toBe(true);
+        expect(plugin.configFor(3)).toEqual({ greeting: "hi", times: 1 });
+
+        await harness.simulateMessage({ text: "greet", groupId: 3 });
+        harness.expectReply("hi x1");
+        await harness.simulateMessage({ text: "greet", groupId: 4 });
+        harness.expectReply("hello x1");
+
+        loader.setConfig("greeter", { times: 2 });
+        await harness.simulateMessage({ text: "greet", groupId: 3 });
+        harness.expectReply("hi x2");
+    });
+
+    test("reject invalid overrides and remove empty ones", async () => {
+        const plugin = greet();
+        const { loader, dir } = await loaderFor(plugin);
+        expect(loader.setGroupOverride(plugin, 3, { times: 2 })).toBeNull();
+        expect(loader.setGroupOverride(plugin, 3, { times: -1 })).toContain("times");
+        expect(plugin.configFor(3).times).toBe(2);
+        expect(loader.getGroupOverride("greeter", 3)).toEqual({ times: 2 });
+
+        expect(loader.setGroupOverride(plugin, 3, {})).toBeNull();
+        expect(plugin.configFor(3)).toEqual(plugin.config);
+        expect(fs.existsSync(path.join(dir, "greeter", "groups", "3.json"))).toBe(false);
+    });
+});
@@ -1,39 +1,396 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as chokidar from "chokidar";
+import { z } from "zod";
 import { Bot } from "./bot";
 import { Logger, withScope } from "./logger";
+import { BotConfig, Plugin, defaultBotConfig } from "./types";
+import { createGroupConfigPlugin } from "./group-config";
+import {
+    ConfigComments,
+    ConfigFormat,
+    configExtensions,
+    formatExtensions,
+    formatOf,
+    parseConfig,
+    stringifyConfig,
+} from "./config-format";
+
+/** 机器人核心配置的文件名（不含扩展名） */
+export const CORE_CONFIG_NAME = "paowa";
+
+const permissionLevelSchema = z.enum(["user", "admin", "owner", "superuser"]);
+const idsSchema = z.array(z.number().int());
+const commandTriggerSchema = z.object({
+    prefixes: z.array(z.string()),
+    requireAt: z.boolean(),
+});
+
+/**
+ * 机器人核心配置的校验规则，与 BotConfig 对应
+ */
+const botConfigSchema: z.ZodType<BotConfig> = z.object({
+    permission: z.object({
+        superusers: idsSchema,
+        admins: idsSchema,
+        blacklistedUsers: idsSchema,
+        blacklistedGroups: idsSchema,
+        disabledPlugins: z.array(z.string()),
+        disabledCommands: z.array(z.string()),
+        groups: z.record(
+            z.string(),
+            z.object({
+                disabled: z.boolean().optional(),
+                disabledPlugins: z.array(z.string()).optional(),
+                disabledCommands: z.array(z.string()).optional(),
+            })
+        ),
+        replyOnDeny: z.boolean(),
+    }),
+    command: commandTriggerSchema.extend({
+        groups: z.record(z.string(), commandTriggerSchema.partial()),
+    }),
+    rateLimit: z.object({
+        message: z.string(),
+        bypass: z.union([permissionLevelSchema, z.literal(false)]),
+    }),
+    session: z.object({
+        timeoutMs: z.number().positive(),
+        retries: z.number().int().min(0),
+        cancelKeywords: z.array(z.string()),
+        messages: z.object({
+            cancel: z.string(),
+            timeout: z.string(),
+            retry: z.string(),
+            invalid: z.string(),
+        }),
+    }),
+    reply: z.object({
+        quote: z.boolean(),
+        longMessage: z.object({
+            mode: z.enum(["split", "forward", "none"]),
+            maxLength: z.number().int().positive(),
+            maxLines: z.number().int().positive(),
+            maxSplits: z.number().int().min(0),
+        }),
+        groups: z.record(z.string(), z.object({ quote: z.boolean().optional() })),
+    }),
+});
+
+function formatIssues(error: z.ZodError): string {
+    return error.issues
+        .map((issue) => `  - ${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+        .join("\n");
+}
+
+/**
+ * 按键排序后序列化，用于比较配置是否变化（包括嵌套字段）
+ */
+function stableStringify(value: any): string {
+    return JSON.stringify(value, (_, v) =>
+        v && typeof v === "object" && !Array.isArray(v)
+            ? Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]))
+            : v
+    );
+}
 
 export class ConfigLoader {
     private bot: Bot;
     private configDir: string;
+    /** 新建配置文件使用的格式 */
+    private format: ConfigFormat;
     private watcher: chokidar.FSWatcher | null = null;
     private configs: Map<string, any> = new Map();
+    // pluginName -> groupId -> 群配置文件中的覆盖项
+    private groupOverrides: Map<string, Map<number, any>> = new Map();
     private logger: Logger;
-    constructor(bot: Bot, configDir: string) {
+    /**
+     * @param format 新建配置文件使用的格式，已有的配置文件保持原格式
+     */
+    constructor(bot: Bot, configDir: string, format: ConfigFormat = "json") {
         this.bot = bot;
         this.configDir = configDir;
         this.logger = withScope("ConfigLoader");
         this.logger.info(`Config directory: ${configDir}`);
+        if (!(format in formatExtensions)) {
+            this.logger.warn(`Unknown config format "${format}", using json`);
+            format = "json";
+        }
+        this.format = format;
 
         if (!fs.existsSync(this.configDir)) {
             fs.mkdirSync(this.configDir, { recursive: true });
         }
     }
 
-    public start() {
+    public async start() {
         this.loadAll();
+        this.loadBotConfig();
+        await this.bot.registerPlugin(createGroupConfigPlugin(this.bot, this));
         this.watch();
     }
 
-    public getConfig(pluginName: string, defaultConfig?: any): any {
+    /**
+     * 加载机器人核心配置，缺失的字段使用默认值补全
+     */
+    private loadBotConfig() {
+        this.syncConfig(CORE_CONFIG_NAME, defaultBotConfig());
+        const config = this.configs.get(CORE_CONFIG_NAME);
+        // 配置文件无效时 configs 中没有记录，保留当前配置
+        if (!config) return;
+        const result = this.resolveBotConfig(config);
+        if (result.success) this.bot.config = result.data;
+    }
+
+    /**
+     * 合并默认值并校验核心配置
+     */
+    private resolveBotConfig(
+        config: any
+    ): { success: true; data: BotConfig } | { success: false; error: string } {
+        const result = botConfigSchema.safeParse(this.deepMerge(defaultBotConfig(), config));
+        return result.success
+            ? { success: true, data: result.data }
+            : { success: false, error: formatIssues(result.error) };
+    }
+
+    /**
+     * 插件的默认配置：spec 中的 config 经 configSchema 补全默认值
+     */
+    public defaultConfig(plugin: Plugin): any {
+        if (!plugin.configSchema) return plugin.defaultConfig;
+        const result = plugin.configSchema.safeParse(plugin.defaultConfig ?? {});
+        return result.success ? result.data : plugin.defaultConfig;
+    }
+
+    /**
+     * 校验并应用插件配置，校验失败时输出错误并保留当前配置
+     * @returns 是否已应用
+     */
+    public applyPluginConfig(plugin: Plugin, config: any): boolean {
+        if (!plugin.configSchema) {
+            plugin.config = config;
+            return true;
+        }
+        const result = plugin.configSchema.safeParse(config ?? {});
+        if (!result.success) {
+            this.logger.error(
+                `Invalid config for plugin ${plugin.meta.name}:\n${formatIssues(result.error)}`
+            );
+            return false;
+        }
+        plugin.config = result.data;
+        return true;
+    }
+
+    /**
+     * 更新已加载插件的配置，配置有变化时调用 onConfigChange
+     * @returns 是否已应用，校验失败时保留当前配置
+     */
+    private updatePluginConfig(plugin: Plugin, config: any): boolean {
+        const oldConfig = plugin.config;
+        if (!this.applyPluginConfig(plugin, config)) return false;
+        this.logger.info(`Updated config for plugin: ${plugin.meta.name}`);
+        this.refreshGroupConfigs(plugin);
+        if (!plugin.onConfigChange || !this.hasChanges(oldConfig, plugin.config)) {
+            return true;
+        }
+        Promise.resolve()
+            .then(() => plugin.onConfigChange!(plugin.config, oldConfig))
+            .catch((err) =>
+                this.logger.error(`onConfigChange of plugin ${plugin.meta.name} failed:`, err)
+            );
+        return true;
+    }
+
+    /**
+     * 获取配置文件中的原始配置（未合并默认值）
+     */
+    public getStoredConfig(name: string): any {
+        return structuredClone(this.configs.get(name) ?? {});
+    }
+
+    /**
+     * 校验并保存配置文件，对应插件已加载时立即生效
+     * @param name 插件名，或核心配置 CORE_CONFIG_NAME
+     * @returns 校验失败时返回错误信息
+     */
+    public setConfig(name: string, config: any): string | null {
+        if (name === CORE_CONFIG_NAME) {
+            const result = this.resolveBotConfig(config);
+            if (!result.success) return result.error;
+            this.saveConfig(name, config);
+            this.configs.set(name, config);
+            this.bot.config = result.data;
+            return null;
+        }
+
+        const plugin = this.bot.plugins.get(name);
+        const merged = plugin ? this.deepMerge(this.defaultConfig(plugin) ?? {}, config) : config;
+        if (plugin?.configSchema) {
+            const result = plugin.configSchema.safeParse(merged);
+            if (!result.success) return formatIssues(result.error);
+        }
+
+        this.saveConfig(name, config);
+        this.configs.set(name, config);
+        if (plugin) {
+            this.updatePluginConfig(plugin, merged);
+        }
+        return null;
+    }
+
+    /**
+     * 查找目录中名为 name 的配置文件，不存在时返回使用默认格式的新路径
+     */
+    private resolveConfigPath(dir: string, name: string): string {
+        for (const ext of Object.keys(configExtensions)) {
+            const filePath = path.join(dir, name + ext);
+            if (fs.existsSync(filePath)) return filePath;
+        }
+        return path.join(dir, name + formatExtensions[this.format]);
+    }
+
+    private configPath(pluginName: string): string {
+        return this.resolveConfigPath(this.configDir, pluginName);
+    }
+
+    private groupConfigPath(pluginName: string, groupId: number): string {
+        return this.resolveConfigPath(
+            path.join(this.configDir, pluginName, "groups"),
+            groupId.toString()
+        );
+    }
+
+    private readConfigFile(filePath: string): any {
+        return parseConfig(fs.readFileSync(filePath, "utf-8"), formatOf(filePath)!);
+    }
+
+    /**
+     * 写入配置文件，文件已存在时在原内容上修改以保留注释与键顺序
+     */
+    private writeConfigFile(filePath: string, config: any, comments?: ConfigComments) {
+        const original = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : undefined;
+        const content = stringifyConfig(config, formatOf(filePath)!, original, comments);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        // 先写临时文件再重命名，避免监听到写了一半的文件
+        const tmp = path.join(path.dirname(filePath), `.${path.basename(filePath)}.tmp`);
+        fs.writeFileSync(tmp, content);
+        fs.renameSync(tmp, filePath);
+    }
+
+    /**
+     * 解析 <configDir>/<插件名>/groups/<群号>.<json|yaml|toml> 形式的路径
+     */
+    private parseGroupConfigPath(filePath: string): { pluginName: string; groupId: number } | null {
+        const parts = path.relative(this.configDir, filePath).split(path.sep);
+        if (parts.length !== 3 || parts[1] !== "groups" || !formatOf(parts[2])) {
+            return null;
+        }
+        const groupId = Number(path.parse(parts[2]).name);
+        if (!Number.isInteger(groupId) || groupId <= 0) return null;
+        return { pluginName: parts[0], groupId };
+    }
+
+    /**
+     * 合并全局配置与群配置并校验
+     */
+    private resolveGroupConfig(
+        plugin: Plugin,
+        override: any
+    ): { success: true; data: any } | { success: false; error: string } {
+        const merged = this.deepMerge(plugin.config ?? {}, override);
+        if (!plugin.configSchema) return { success: true, data: merged };
+        const result = plugin.configSchema.safeParse(merged);
+        return result.success
+            ? { success: true, data: result.data }
+            : { success: false, error: formatIssues(result.error) };
+    }
+
+    /**
+     * 重新计算插件在各群生效的配置，校验失败的群保留上一次有效的配置
+     */
+    public refreshGroupConfigs(plugin: Plugin) {
+        const overrides = this.groupOverrides.get(plugin.meta.name);
+        const groupConfigs = new Map<number, any>();
+        for (const [groupId, override] of overrides ?? []) {
+            const result = this.resolveGroupConfig(plugin, override);
+            if (result.success) {
+                groupConfigs.set(groupId, result.data);
+                continue;
+            }
+            this.logger.error(
+                `Invalid group config for plugin ${plugin.meta.name} in group ${groupId}:\n${result.error}`
+            );
+            const previous = plugin.groupConfigs.get(groupId);
+            if (previous) groupConfigs.set(groupId, previous);
+        }
+        plugin.groupConfigs = groupConfigs;
+    }
+
+    /**
+     * 获取群配置文件中的覆盖项
+     */
+    public getGroupOverride(pluginName: string, groupId: number): any {
+        return structuredClone(this.groupOverrides.get(pluginName)?.get(groupId) ?? {});
+    }
+
+    /**
+     * 校验并保存群配置，覆盖项为空时删除群配置文件
+     * @returns 校验失败时返回错误信息
+     */
+    public setGroupOverride(plugin: Plugin, groupId: number, override: any): string | null {
+        const pluginName = plugin.meta.name;
+        const result = this.resolveGroupConfig(plugin, override);
+        if (!result.success) return result.error;
+
+        const filePath = this.groupConfigPath(pluginName, groupId);
+        if (!this.groupOverrides.has(pluginName)) this.groupOverrides.set(pluginName, new Map());
+        if (Object.keys(override).length === 0) {
+            if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+            this.groupOverrides.get(pluginName)!.delete(groupId);
+            plugin.groupConfigs.delete(groupId);
+            return null;
+        }
+
+        this.writeConfigFile(filePath, override);
+        this.groupOverrides.get(pluginName)!.set(groupId, override);
+        plugin.groupConfigs.set(groupId, result.data);
+        return null;
+    }
+
+    private loadGroupConfig(filePath: string) {
+        const target = this.parseGroupConfigPath(filePath);
+        if (!target) return;
+        try {
+            const override = this.readConfigFile(filePath);
+            if (!this.groupOverrides.has(target.pluginName)) {
+                this.groupOverrides.set(target.pluginName, new Map());
+            }
+            this.groupOverrides.get(target.pluginName)!.set(target.groupId, override);
+
+            const plugin = this.bot.plugins.get(target.pluginName);
+            if (plugin) this.refreshGroupConfigs(plugin);
+        } catch (err) {
+            this.logger.error(`Failed to load group config ${filePath}:`, err);
+        }
+    }
+
+    private removeGroupConfig(filePath: string) {
+        const target = this.parseGroupConfigPath(filePath);
+        if (!target) return;
+        this.groupOverrides.get(target.pluginName)?.delete(target.groupId);
+        this.bot.plugins.get(target.pluginName)?.groupConfigs.delete(target.groupId);
+    }
+
+    public getConfig(pluginName: string, defaultConfig?: any, comments?: ConfigComments): any {
         if (defaultConfig === null || defaultConfig === undefined) {
             return this.configs.get(pluginName) || {};
         }
 
         let config = this.configs.get(pluginName);
         if (!config && defaultConfig) {
-            const filePath = path.join(this.configDir, `${pluginName}.json`);
+            const filePath = this.configPath(pluginName);
             if (fs.existsSync(filePath)) {
                 this.loadConfig(filePath);
                 config = this.configs.get(pluginName);
@@ -41,7 +398,7 @@ export class ConfigLoader {
                 this.logger.info(
                     `Config file for ${pluginName} not found, creating default config`
                 );
-                this.saveConfig(pluginName, defaultConfig);
+                this.saveConfig(pluginName, defaultConfig, comments);
                 config = defaultConfig;
                 this.configs.set(pluginName, config);
             }
@@ -54,15 +411,19 @@ export class ConfigLoader {
         return config || {};
     }
 
-    public syncConfig(pluginName: string, defaultConfig: any): void {
+    /**
+     * 用默认配置补全配置文件中缺失的字段
+     * @param comments 新增字段的注释，JSON 格式不支持注释
+     */
+    public syncConfig(pluginName: string, defaultConfig: any, comments?: ConfigComments): void {
         if (defaultConfig === null || defaultConfig === undefined) {
             return;
         }
 
-        const filePath = path.join(this.configDir, `${pluginName}.json`);
+        const filePath = this.configPath(pluginName);
 
         if (!fs.existsSync(filePath)) {
-            this.saveConfig(pluginName, defaultConfig);
+            this.saveConfig(pluginName, defaultConfig, comments);
             this.configs.set(pluginName, defaultConfig);
             this.logger.info(`Created config for ${pluginName}`);
             return;
@@ -71,13 +432,15 @@ export class ConfigLoader {
         const existingConfig = this.configs.get(pluginName);
         if (!existingConfig) {
             this.loadConfig(filePath);
+            // 文件无法解析或校验失败时不覆盖，等待用户修正
+            if (!this.configs.has(pluginName)) return;
         }
 
         const currentConfig = this.configs.get(pluginName) || {};
         const mergedConfig = this.deepMerge(defaultConfig, currentConfig);
 
         if (this.hasChanges(currentConfig, mergedConfig)) {
-            this.saveConfig(pluginName, mergedConfig);
+            this.saveConfig(pluginName, mergedConfig, comments);
             this.configs.set(pluginName, mergedConfig);
             this.logger.info(`Synced config for ${pluginName}`);
         }
@@ -98,25 +461,31 @@ export class ConfigLoader {
     }
 
     private hasChanges(original: any, merged: any): boolean {
-        const originalStr = JSON.stringify(original, Object.keys(original).sort());
-        const mergedStr = JSON.stringify(merged, Object.keys(merged).sort());
-        return originalStr !== mergedStr;
+        return stableStringify(original) !== stableStringify(merged);
     }
 
     private loadAll() {
         if (!fs.existsSync(this.configDir)) return;
         const files = fs.readdirSync(this.configDir);
         for (const file of files) {
-            if (file.endsWith(".json")) {
+            if (formatOf(file)) {
                 this.loadConfig(path.join(this.configDir, file));
+                continue;
+            }
+            // 群配置：<插件名>/groups/<群号>.<json|yaml|toml>
+            const groupsDir = path.join(this.configDir, file, "groups");
+            if (!fs.existsSync(groupsDir)) continue;
+            for (const groupFile of fs.readdirSync(groupsDir)) {
+                if (formatOf(groupFile)) {
+                    this.loadGroupConfig(path.join(groupsDir, groupFile));
+                }
             }
         }
     }
 
-    private saveConfig(pluginName: string, config: any) {
+    private saveConfig(pluginName: string, config: any, comments?: ConfigComments) {
         try {
-            const filePath = path.join(this.configDir, `${pluginName}.json`);
-            fs.writeFileSync(filePath, JSON.stringify(config, null, 4)); // 4缩进
+            this.writeConfigFile(this.configPath(pluginName), config, comments);
         } catch (err) {
             this.logger.error(`Failed to save config for ${pluginName}:`, err);
         }
@@ -126,37 +495,63 @@ export class ConfigLoader {
         this.watcher = chokidar.watch(this.configDir, {
             ignored: /(^|[\/\\])\../,
             persistent: true,
-            depth: 0,
+            depth: 2, // 包含 <插件名>/groups/<群号>.<json|yaml|toml>
         });
 
         this.watcher
             .on("add", (filePath) => {
                 this.logger.info(`Config added: ${filePath}`);
-                this.loadConfig(filePath);
+                if (this.parseGroupConfigPath(filePath)) this.loadGroupConfig(filePath);
+                else if (this.isTopLevel(filePath)) this.loadConfig(filePath);
             })
             .on("change", (filePath) => {
                 this.logger.info(`Config changed: ${filePath}`);
-                this.reloadConfig(filePath);
+                if (this.parseGroupConfigPath(filePath)) this.loadGroupConfig(filePath);
+                else if (this.isTopLevel(filePath)) this.reloadConfig(filePath);
             })
             .on("unlink", (filePath) => {
                 this.logger.info(`Config removed: ${filePath}`);
-                this.removeConfig(filePath);
+                if (this.parseGroupConfigPath(filePath)) this.removeGroupConfig(filePath);
+                else if (this.isTopLevel(filePath)) this.removeConfig(filePath);
             });
     }
 
+    /**
+     * 是否为配置目录下的插件配置文件
+     */
+    private isTopLevel(filePath: string): boolean {
+        return (
+            formatOf(filePath) !== null &&
+            path.resolve(path.dirname(filePath)) === path.resolve(this.configDir)
+        );
+    }
+
     private loadConfig(filePath: string) {
         try {
-            const pluginName = path.basename(filePath, ".json");
-            const content = fs.readFileSync(filePath, "utf-8");
-            const config = JSON.parse(content);
-            this.configs.set(pluginName, config);
+            const pluginName = path.parse(filePath).name;
+            const config = this.readConfigFile(filePath);
 
-            // 如果插件已经加载，更新插件配置
+            // 校验失败时保留上一次有效的核心配置
+            if (pluginName === CORE_CONFIG_NAME) {
+                const result = this.resolveBotConfig(config);
+                if (!result.success) {
+                    this.logger.error(`Invalid bot config:\n${result.error}`);
+                    return;
+                }
+                this.configs.set(pluginName, config);
+                this.bot.config = result.data;
+                this.logger.info("Updated bot config");
+                return;
+            }
+
+            // 如果插件已经加载，更新插件配置，校验失败时保留上一次有效的配置文件内容
             const plugin = this.bot.plugins.get(pluginName);
             if (plugin) {
-                plugin.config = config;
-                this.logger.info(`Updated config for plugin: ${pluginName}`);
+                // 重新合并默认配置，避免文件中缺失的字段变为 undefined
+                const merged = this.deepMerge(this.defaultConfig(plugin) ?? {}, config);
+                if (!this.updatePluginConfig(plugin, merged)) return;
             }
+            this.configs.set(pluginName, config);
         } catch (err) {
             this.logger.error(`Failed to load config ${filePath}:`, err);
         }
@@ -167,11 +562,16 @@ export class ConfigLoader {
     }
 
     private removeConfig(filePath: string) {
-        const pluginName = path.basename(filePath, ".json");
+        const pluginName = path.parse(filePath).name;
         this.configs.delete(pluginName);
+        if (pluginName === CORE_CONFIG_NAME) {
+            this.bot.config = defaultBotConfig();
+            return;
+        }
+        // 配置文件被删除时退回默认配置
         const plugin = this.bot.plugins.get(pluginName);
         if (plugin) {
-            plugin.config = undefined;
+            this.updatePluginConfig(plugin, this.defaultConfig(plugin) ?? {});
         }
     }
 }
@@ -0,0 +1,221 @@
+import * as readline from "readline";
+import { Bot } from "./bot";
+import { MessageSegment } from "./reply";
+import { VirtualClient, SentMessage, createMessageEvent } from "./transport";
+import { Logger, withScope } from "./logger";
+
+export interface ConsoleSession {
+    userId: number;
+    /** 为 0 时为私聊 */
+    groupId: number;
+    role: "owner" | "admin" | "member";
+}
+
+const segmentPattern = /\[(\w+)(?::([^\]]*))?\]/g;
+
+/**
+ * 将控制台输入解析为消息段
+ * 支持 [at:123]、[at:self]、[face:1]、[image:url]、[reply:id] 等写法，其余为文本
+ */
+export function parseConsoleMessage(line: string, selfId: number): MessageSegment[] {
+    const segments: MessageSegment[] = [];
+    let last = 0;
+    for (const match of line.matchAll(segmentPattern)) {
+        const [raw, type, value = ""] = match;
+        const index = match.index ?? 0;
+        if (index > last) {
+            segments.push({ type: "text", data: { text: line.slice(last, index) } });
+        }
+        last = index + raw.length;
+        switch (type) {
+            case "at":
+                segments.push({
+                    type: "at",
+                    data: { qq: value === "self" || !value ? selfId.toString() : value },
+                });
+                break;
+            case "face":
+                segments.push({ type: "face", data: { id: value } });
+                break;
+            case "image":
+                segments.push({ type: "image", data: { file: value } });
+                break;
+            case "record":
+            case "video":
+                segments.push({ type, data: { file: value } });
+                break;
+            case "reply":
+                segments.push({ type: "reply", data: { id: value } });
+                break;
+            default:
+                // 无法识别的写法按原文处理
+                segments.push({ type: "text", data: { text: raw } });
+        }
+    }
+    if (last < line.length) {
+        segments.push({ type: "text", data: { text: line.slice(last) } });
+    }
+    return segments;
+}
+
+/**
+ * 将消息段渲染为可读文本
+ */
+export function renderMessage(message: MessageSegment[]): string {
+    return message
+        .map((seg) => {
+            switch (seg.type) {
+                case "text":
+                    return seg.data.text;
+                case "at":
+                    return `@${seg.data.qq}`;
+                case "face":
+                    return `[face:${seg.data.id}]`;
+                case "reply":
+                    return `[reply:${seg.data.id}]`;
+                case "image":
+                case "record":
+                case "video":
+                case "file":
+                    return `[${seg.type}:${seg.data.file}]`;
+                case "json":
+                case "xml":
+                    return `[${seg.type}:${seg.data.data}]`;
+                case "markdown":
+                    return seg.data.content;
+                case "node":
+                    return seg.data.content
+                        ? `\n[${seg.data.nickname ?? seg.data.user_id}] ${renderMessage(seg.data.content)}`
+                        : `\n[node:${seg.data.id}]`;
+                default:
+                    return `[${(seg as any).type}]`;
+            }
+        })
+        .join("");
+}
+
+const helpText = `控制台命令：
+  :user <id>        切换发送者
+  :group <id>       切换到群聊
+  :private          切换到私聊
+  :role <role>      设置群角色 (owner/admin/member)
+  :help             显示帮助
+  :exit             退出
+消息中可使用 [at:self]、[at:123]、[face:1]、[image:url]、[reply:id] 插入消息段`;
+
+/**
+ * 控制台适配器，以指定的用户和群身份向机器人发送消息，并在终端打印回复
+ */
+export class ConsoleAdapter {
+    private bot: Bot;
+    private client: VirtualClient;
+    private rl: readline.Interface | null = null;
+    private logger: Logger;
+    public session: ConsoleSession = {
+        userId: 10001,
+        groupId: 20001,
+        role: "member",
+    };
+
+    constructor(bot: Bot, client: VirtualClient) {
+        this.bot = bot;
+        this.client = client;
+        this.logger = withScope("Console");
+        this.client.on("send", (sent: SentMessage) => this.printSent(sent));
+        this.client.on("delete", (messageId: number) => {
+            this.print(`(recalled message #${messageId})`);
+        });
+        this.client.on("api", (call: { method: string; args: any[] }) => {
+            this.print(`(api ${call.method} ${JSON.stringify(call.args)})`);
+        });
+    }
+
+    public start() {
+        this.rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        this.rl.on("line", (line) => this.handleLine(line.trim()));
+        this.rl.on("close", () => process.exit(0));
+        this.print(helpText);
+        this.prompt();
+    }
+
+    public stop() {
+        this.rl?.close();
+        this.rl = null;
+    }
+
+    private get promptText(): string {
+        const where = this.session.groupId ? `group ${this.session.groupId}` : "private";
+        return `[${where} | user ${this.session.userId}] > `;
+    }
+
+    private prompt() {
+        this.rl?.setPrompt(this.promptText);
+        this.rl?.prompt();
+    }
+
+    private print(text: string) {
+        // 清除当前提示符后打印，再重新显示提示符
+        readline.clearLine(process.stdout, 0);
+        readline.cursorTo(process.stdout, 0);
+        console.log(text);
+        this.rl?.prompt(true);
+    }
+
+    private printSent(sent: SentMessage) {
+        const where = sent.type === "group" ? `group ${sent.target}` : `private ${sent.target}`;
+        const header = `<${this.bot.nickname} → ${where}> #${sent.message_id}`;
+        this.print(`${header}\n${renderMessage(sent.message)}`);
+    }
+
+    private handleLine(line: string) {
+        if (!line) {
+            this.prompt();
+            return;
+        }
+        if (line.startsWith(":")) {
+            this.handleCommand(line.slice(1).split(/\s+/));
+            this.prompt();
+            return;
+        }
+
+        const event = createMessageEvent({
+            message: parseConsoleMessage(line, this.bot.id),
+            userId: this.session.userId,
+            groupId: this.session.groupId,
+            role: this.session.role,
+            selfId: this.bot.id,
+            messageId: this.client.nextMessageId(),
+        });
+        this.client.receive(event);
+        this.prompt();
+    }
+
+    private handleCommand([name, value]: string[]) {
+        switch (name) {
+            case "user":
+                this.session.userId = Number(value) || this.session.userId;
+                break;
+            case "group":
+                this.session.groupId = Number(value) || this.session.groupId;
+                break;
+            case "private":
+                this.session.groupId = 0;
+                break;
+            case "role":
+                if (value === "owner" || value === "admin" || value === "member") {
+                    this.session.role = value;
+                } else {
+                    this.logger.warn(`Unknown role: ${value}`);
+                }
+                break;
+            case "help":
+                this.print(helpText);
+                break;
+            case "exit":
+                this.stop();
+                break;
+            default:
+                this.logger.warn(`Unknown console command: ${name}`);
+        }
+    }
+}
@@ -0,0 +1,338 @@
+import type {
+    NapLink,
+    BaseEvent,
+    MessageEvent,
+    GroupMessageEvent,
+    PrivateMessageEvent,
+    NoticeEvent,
+    GroupRecallNotice,
+    FriendRecallNotice,
+    GroupUploadNotice,
+    GroupAdminNotice,
+    GroupDecreaseNotice,
+    GroupIncreaseNotice,
+    FriendAddNotice,
+    NotifyNotice,
+    PokeNotice,
+    RequestEvent,
+    FriendRequest,
+    GroupRequest,
+    MetaEvent,
+    LifecycleMetaEvent,
+    HeartbeatMetaEvent,
+} from "@naplink/naplink";
+import type { Bot, Context } from "./bot";
+import { ReplyContext } from "./reply";
+
+/**
+ * 群禁言通知（NapLink 未提供该类型）
+ */
+export interface GroupBanNotice extends NoticeEvent {
+    notice_type: "group_ban";
+    sub_type: "ban" | "lift_ban";
+    group_id: number;
+    operator_id: number;
+    user_id: number;
+    duration: number;
+}
+
+/**
+ * NapLink 事件名到事件数据的映射
+ * 事件名规则与 NapLink 的路由一致：post_type[.detail_type[.sub_type]]
+ */
+export interface EventMap {
+    message: MessageEvent;
+    "message.group": GroupMessageEvent;
+    "message.private": PrivateMessageEvent;
+    notice: NoticeEvent;
+    "notice.group_recall": GroupRecallNotice;
+    "notice.friend_recall": FriendRecallNotice;
+    "notice.group_upload": GroupUploadNotice;
+    "notice.group_admin": GroupAdminNotice;
+    "notice.group_decrease": GroupDecreaseNotice;
+    "notice.group_increase": GroupIncreaseNotice;
+    "notice.group_ban": GroupBanNotice;
+    "notice.friend_add": FriendAddNotice;
+    "notice.notify": NotifyNotice;
+    "notice.notify.poke": PokeNotice;
+    request: RequestEvent;
+    "request.friend": FriendRequest;
+    "request.group": GroupRequest;
+    "request.group.add": GroupRequest;
+    "request.group.invite": GroupRequest;
+    meta_event: MetaEvent;
+    "meta_event.lifecycle": LifecycleMetaEvent;
+    "meta_event.heartbeat": HeartbeatMetaEvent;
+}
+
+export type EventName = keyof EventMap;
+
+/**
+ * 非消息事件的上下文
+ */
+export class EventContext<T extends BaseEvent = BaseEvent> {
+    public bot: Bot;
+    public client: NapLink;
+    public event: string; // 触发的事件名
+    public raw: T; // 原始事件数据
+
+    constructor(bot: Bot, event: string, raw: T) {
+        this.bot = bot;
+        this.client = bot.client;
+        this.event = event;
+        this.raw = raw;
+    }
+}
+
+/**
+ * 通知事件的上下文
+ * 群通知回复到所在群，其余通知私聊回复给 user_id
+ */
+export class NoticeContext<T extends NoticeEvent = NoticeEvent> extends ReplyContext {
+    public bot: Bot;
+    public event: string; // 触发的事件名
+    public raw: T; // 原始事件数据
+    public user_id: number; // 通知涉及的用户
+    public operator_id: number; // 操作者，无操作者时为 0
+
+    constructor(bot: Bot, event: string, raw: T) {
+        const data = raw as any;
+        const groupId: number = data.group_id ?? 0;
+        super(bot.client, data.user_id ?? 0, groupId, groupId !== 0);
+        this.bot = bot;
+        this.event = event;
+        this.raw = raw;
+        this.user_id = data.user_id ?? 0;
+        this.operator_id = data.operator_id ?? 0;
+    }
+
+    private assertGroup(action: string) {
+        if (!this.is_group) {
+            throw new Error(`Cannot ${action}: ${this.raw.notice_type} is not a group notice`);
+        }
+    }
+
+    /**
+     * 将通知涉及的用户踢出群
+     */
+    public async kick(rejectAddRequest: boolean = false) {
+        this.assertGroup("kick");
+        await this.client.setGroupKick(this.group_id, this.user_id, rejectAddRequest);
+    }
+
+    /**
+     * 禁言通知涉及的用户，seconds 为 0 时解除禁言
+     */
+    public async ban(seconds: number) {
+        this.assertGroup("ban");
+        await this.client.setGroupBan(this.group_id, this.user_id, seconds);
+    }
+
+    public async unban() {
+        this.assertGroup("unban");
+        await this.client.unsetGroupBan(this.group_id, this.user_id);
+    }
+}
+
+/** 群成员增加 */
+export class GroupIncreaseContext extends NoticeContext<GroupIncreaseNotice> {
+    /** 是否为机器人自己入群 */
+    public get is_self(): boolean {
+        return this.user_id === this.raw.self_id;
+    }
+}
+
+/** 群成员减少 */
+export class GroupDecreaseContext extends NoticeContext<GroupDecreaseNotice> {
+    /** 是否为被踢出（含机器人被踢） */
+    public get is_kicked(): boolean {
+        return this.raw.sub_type !== "leave";
+    }
+}
+
+/** 群消息撤回 / 好友消息撤回 */
+export class RecallContext extends NoticeContext<GroupRecallNotice | FriendRecallNotice> {
+    public get message_id(): number {
+        return this.raw.message_id;
+    }
+
+    /**
+     * 获取被撤回的消息内容
+     */
+    public async getMessage() {
+        return this.client.getMessage(this.message_id);
+    }
+}
+
+/** 戳一戳 */
+export class PokeContext extends NoticeContext<PokeNotice> {
+    public get target_id(): number {
+        return this.raw.target_id;
+    }
+
+    /** 是否戳的是机器人 */
+    public get is_poke_self(): boolean {
+        return this.raw.target_id === this.raw.self_id;
+    }
+
+    /**
+     * 戳回去
+     */
+    public async pokeBack() {
+        await this.client.sendPoke(this.user_id, this.is_group ? this.group_id : undefined);
+    }
+}
+
+/** 群禁言 */
+export class GroupBanContext extends NoticeContext<GroupBanNotice> {
+    /** 禁言时长（秒），解除禁言时为 0 */
+    public get duration(): number {
+        return this.raw.duration;
+    }
+
+    public get is_lift(): boolean {
+        return this.raw.sub_type === "lift_ban";
+    }
+}
+
+/** 群文件上传 */
+export class GroupUploadContext extends NoticeContext<GroupUploadNotice> {
+    public get file() {
+        return this.raw.file;
+    }
+
+    /**
+     * 获取上传文件的下载链接
+     */
+    public async getFileUrl() {
+        return this.client.getGroupFileUrl(this.group_id, this.raw.file.id, this.raw.file.busid);
+    }
+}
+
+/**
+ * 请求事件的上下文
+ * 加群请求回复到对应群，好友请求私聊回复给申请人
+ */
+export abstract class RequestContext<
+    T extends FriendRequest | GroupRequest
+> extends ReplyContext {
+    public bot: Bot;
+    public event: string; // 触发的事件名
+    public raw: T; // 原始事件数据
+    public user_id: number; // 申请人
+    public comment: string; // 验证信息
+    public flag: string;
+
+    constructor(bot: Bot, event: string, raw: T) {
+        const groupId = raw.request_type === "group" ? raw.group_id : 0;
+        super(bot.client, raw.user_id, groupId, groupId !== 0);
+        this.bot = bot;
+        this.event = event;
+        this.raw = raw;
+        this.user_id = raw.user_id;
+        this.comment = raw.comment ?? "";
+        this.flag = raw.flag;
+    }
+
+    public abstract approve(): Promise<void>;
+    public abstract reject(reason?: string): Promise<void>;
+}
+
+/** 好友申请 */
+export class FriendRequestContext extends RequestContext<FriendRequest> {
+    /**
+     * 同意好友申请
+     * @param remark 好友备注
+     */
+    public async approve(remark?: string) {
+        await this.client.handleFriendRequest(this.flag, true, remark);
+    }
+
+    public async reject() {
+        await this.client.handleFriendRequest(this.flag, false);
+    }
+}
+
+/** 加群申请 / 邀请机器人入群 */
+export class GroupRequestContext extends RequestContext<GroupRequest> {
+    /** 是否为邀请机器人入群 */
+    public get is_invite(): boolean {
+        return this.raw.sub_type === "invite";
+    }
+
+    public async approve() {
+        await this.client.handleGroupRequest(this.flag, this.raw.sub_type, true);
+    }
+
+    /**
+     * 拒绝加群申请
+     * @param reason 拒绝理由，会展示给申请人
+     */
+    public async reject(reason?: string) {
+        await this.client.handleGroupRequest(this.flag, this.raw.sub_type, false, reason);
+    }
+}
+
+/**
+ * 根据事件数据创建对应的上下文，message 事件不在此处理
+ */
+export function createEventContext(bot: Bot, event: string, data: any) {
+    if (data?.post_type === "notice") {
+        switch (data.notice_type) {
+            case "group_increase":
+                return new GroupIncreaseContext(bot, event, data);
+            case "group_decrease":
+                return new GroupDecreaseContext(bot, event, data);
+            case "group_recall":
+            case "friend_recall":
+                return new RecallContext(bot, event, data);
+            case "group_ban":
+                return new GroupBanContext(bot, event, data);
+            case "group_upload":
+                return new GroupUploadContext(bot, event, data);
+            case "notify":
+                if (data.sub_type === "poke") return new PokeContext(bot, event, data);
+                break;
+        }
+        return new NoticeContext(bot, event, data);
+    }
+    if (data?.post_type === "request") {
+        if (data.request_type === "friend") return new FriendRequestContext(bot, event, data);
+        if (data.request_type === "group") return new GroupRequestContext(bot, event, data);
+    }
+    return new EventContext(bot, event, data);
+}
+
+/**
+ * 事件名到上下文类型的映射
+ */
+export interface ContextMap {
+    notice: NoticeContext;
+    "notice.group_recall": RecallContext;
+    "notice.friend_recall": RecallContext;
+    "notice.group_upload": GroupUploadContext;
+    "notice.group_admin": NoticeContext<GroupAdminNotice>;
+    "notice.group_decrease": GroupDecreaseContext;
+    "notice.group_increase": GroupIncreaseContext;
+    "notice.group_ban": GroupBanContext;
+    "notice.friend_add": NoticeContext<FriendAddNotice>;
+    "notice.notify": NoticeContext<NotifyNotice>;
+    "notice.notify.poke": PokeContext;
+    request: FriendRequestContext | GroupRequestContext;
+    "request.friend": FriendRequestContext;
+    "request.group": GroupRequestContext;
+    "request.group.add": GroupRequestContext;
+    "request.group.invite": GroupRequestContext;
+}
+
+/**
+ * 根据事件名推断监听器收到的上下文类型
+ * message 事件使用与命令相同的 Context，通知与请求使用对应的上下文类，其余使用 EventContext
+ */
+export type ListenerContext<E extends string> = E extends `message${string}`
+    ? Context
+    : E extends keyof ContextMap
+    ? ContextMap[E]
+    : E extends EventName
+    ? EventContext<EventMap[E]>
+    : EventContext;
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { Bot, Context } from "./bot";
+import type { ConfigLoader } from "./config-loader";
+import { Plugin, createCommand } from "./types";
+import { arg } from "./args";
+import { deletePath, formatValue, getPath, isSafePath, parseValue, setPath } from "./config-format";
+
+/**
+ * 键是否允许在群内修改，允许 "a" 时也允许 "a.b"
+ */
+function isKeyAllowed(plugin: Plugin, key: string): boolean {
+    if (!isSafePath(key)) return false;
+    return plugin.groupConfigKeys.some((allowed) => key === allowed || key.startsWith(allowed + "."));
+}
+
+/**
+ * 查找允许群配置的插件，找不到时回复提示
+ */
+function findPlugin(bot: Bot, ctx: Context, pluginName: string): Plugin | null {
+    const plugin = bot.plugins.get(pluginName);
+    if (!plugin || plugin.groupConfigKeys.length === 0) {
+        ctx.reply.text(`插件 ${pluginName} 不存在或没有可在群内修改的配置`);
+        return null;
+    }
+    return plugin;
+}
+
+/**
+ * 内置群配置插件，群管理员可修改插件 groupConfigKeys 中声明的配置项
+ */
+export function createGroupConfigPlugin(bot: Bot, loader: ConfigLoader): Plugin {
+    return new Plugin({
+        meta: {
+            name: "group-config",
+            version: "1.0.0",
+            description: "群配置",
+            scope: "group",
+        },
+        commands: [
+            createCommand({
+                name: "gconfig show <plugin>",
+                description: "查看插件在本群的配置",
+                scope: "group",
+                permission: "admin",
+                args: [z.string().describe("插件名")],
+                handler: (ctx, [pluginName]) => {
+                    const plugin = findPlugin(bot, ctx, pluginName);
+                    if (!plugin) return;
+                    const override = loader.getGroupOverride(pluginName, ctx.group_id);
+                    const config = plugin.configFor(ctx.group_id);
+                    const lines = [`[${pluginName}] 本群配置：`];
+                    for (const key of plugin.groupConfigKeys) {
+                        const mark = getPath(override, key) !== undefined ? "（本群）" : "";
+                        lines.push(`  ${key} = ${formatValue(getPath(config, key))}${mark}`);
+                    }
+                    ctx.reply.text(lines.join("\n"));
+                },
+            }),
+            createCommand({
+                name: "gconfig set <plugin> <key> [...value]",
+                description: "修改插件在本群的配置，值可以是 JSON",
+                scope: "group",
+                permission: "admin",
+                args: [
+                    z.string().describe("插件名"),
+                    z.string().describe("配置项"),
+                    arg.rest().describe("值"),
+                ],
+                handler: (ctx, [pluginName, key, text]) => {
+                    const plugin = findPlugin(bot, ctx, pluginName);
+                    if (!plugin) return;
+                    if (!isKeyAllowed(plugin, key)) {
+                        ctx.reply.text(`配置项 ${key} 不允许在群内修改`);
+                        return;
+                    }
+                    const override = loader.getGroupOverride(pluginName, ctx.group_id);
+                    const value = parseValue(text);
+                    setPath(override, key, value);
+                    const error = loader.setGroupOverride(plugin, ctx.group_id, override);
+                    if (error) {
+                        ctx.reply.text(`配置无效：\n${error}`);
+                        return;
+                    }
+                    ctx.reply.text(`已设置 ${key} = ${formatValue(value)}`);
+                },
+            }),
+            createCommand({
+                name: "gconfig reset <plugin> [key]",
+                description: "恢复本群配置为全局配置，不指定配置项时全部恢复",
+                scope: "group",
+                permission: "admin",
+                args: [z.string().describe("插件名"), z.string().optional().describe("配置项")],
+                handler: (ctx, [pluginName, key]) => {
+                    const plugin = findPlugin(bot, ctx, pluginName);
+                    if (!plugin) return;
+                    if (key && !isKeyAllowed(plugin, key)) {
+                        ctx.reply.text(`配置项 ${key} 不允许在群内修改`);
+                        return;
+                    }
+                    const override = key ? loader.getGroupOverride(pluginName, ctx.group_id) : {};
+                    if (key) deletePath(override, key);
+                    const error = loader.setGroupOverride(plugin, ctx.group_id, override);
+                    if (error) {
+                        ctx.reply.text(`配置无效：\n${error}`);
+                        return;
+                    }
+                    ctx.reply.text(key ? `已恢复 ${key}` : "已恢复本群配置");
+                },
+            }),
+        ],
+    });
+}
@@ -0,0 +1,89 @@
+import type { Bot, Context } from "./bot";
+import { Command, Plugin, createCommand } from "./types";
+import { arg } from "./args";
+import { formatHelp } from "./command";
+
+/**
+ * 判断命令对当前用户是否可见：作用域匹配且有权限执行
+ */
+function isCommandVisible(bot: Bot, ctx: Context, cmd: Command<any, any>): boolean {
+    if (cmd.scope === "private" && ctx.is_group) return false;
+    if (cmd.scope === "group" && !ctx.is_group) return false;
+    return bot.permission.check(ctx, {
+        type: "command",
+        pluginName: cmd.pluginName ?? "",
+        commandName: cmd.name,
+        commandAliases: cmd.aliases,
+        permission: cmd.permission,
+    }).allowed;
+}
+
+function formatCatalog(bot: Bot, ctx: Context): string {
+    // 按插件分组
+    const groups = new Map<string, Command<any, any>[]>();
+    for (const cmd of bot.commands.values()) {
+        if (!isCommandVisible(bot, ctx, cmd)) continue;
+        const pluginName = cmd.pluginName ?? "";
+        if (!groups.has(pluginName)) groups.set(pluginName, []);
+        groups.get(pluginName)!.push(cmd);
+    }
+
+    const lines = ["命令列表："];
+    for (const [pluginName, cmds] of groups) {
+        const plugin = bot.plugins.get(pluginName);
+        const description = plugin?.meta.description ? ` - ${plugin.meta.description}` : "";
+        lines.push(`[${pluginName}]${description}`);
+        for (const cmd of cmds.sort((a, b) => a.name.localeCompare(b.name))) {
+            const aliases = cmd.aliases?.length ? ` (${cmd.aliases.join("、")})` : "";
+            const summary = cmd.description ? " - " + cmd.description : "";
+            lines.push(`  ${cmd.name}${aliases}${summary}`);
+        }
+    }
+    lines.push("发送 help <命令> 查看详情");
+    return lines.join("\n");
+}
+
+/**
+ * 内置帮助插件，提供 help [command] 命令
+ */
+export function createHelpPlugin(bot: Bot): Plugin {
+    return new Plugin({
+        meta: {
+            name: "help",
+            version: "1.0.0",
+            description: "内置帮助",
+        },
+        commands: [
+            createCommand({
+                name: "help [...command]",
+                description: "查看命令列表或命令详情",
+                args: [arg.rest().optional().describe("命令名")],
+                handler: (ctx, [query]) => {
+                    if (!query) {
+                        ctx.reply.text(formatCatalog(bot, ctx));
+                        return;
+                    }
+
+                    const visible = [...bot.commands.values()].filter((cmd) =>
+                        isCommandVisible(bot, ctx, cmd)
+                    );
+                    const exact = visible.find(
+                        (cmd) => cmd.basename === query || cmd.aliases?.includes(query)
+                    );
+                    if (exact) {
+                        ctx.reply.text(formatHelp(exact));
+                        return;
+                    }
+
+                    // 未精确匹配时列出同前缀的子命令
+                    const related = visible.filter((cmd) => cmd.basename.startsWith(query));
+                    if (related.length === 0) {
+                        ctx.reply.text(`未找到命令：${query}`);
+                        return;
+                    }
+                    ctx.reply.text(related.map((cmd) => formatHelp(cmd)).join("\n\n"));
+                },
+            }),
+        ],
+    });
+}
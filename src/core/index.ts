@@ -4,3 +4,19 @@ export * from "./types";
 export * from "./loader";
 export * from "./config-loader";
 export * from "./logger";
+export * from "./permission";
+export * from "./event";
+export * from "./reply";
+export * from "./transport";
+export * from "./console";
+export * from "./command";
+export * from "./args";
+export * from "./help";
+export * from "./ratelimit";
+export * from "./session";
+export * from "./storage";
+export * from "./scheduler";
+export * from "./group-config";
+export * from "./config-format";
+export * from "./admin";
+export * from "./outbound";
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { sortByDependencies } from "./loader";
+import { PluginMeta } from "./types";
+import { defineService, definePlugin } from "./utils";
+
+const Database = defineService<object>("database");
+
+const item = (meta: Omit<PluginMeta, "version">) => ({
+    plugin: definePlugin({ meta: { version: "1.0.0", ...meta } }),
+});
+const names = (items: ReturnType<typeof item>[]) => items.map((i) => i.plugin.meta.name);
+
+describe("sortByDependencies", () => {
+    test("places providers before dependents", () => {
+        const app = item({ name: "app", dependencies: [Database, "auth"] });
+        const auth = item({ name: "auth", dependencies: ["db"] });
+        const db = item({ name: "db", provides: [Database] });
+        const { sorted, cyclic } = sortByDependencies([app, auth, db]);
+        expect(names(sorted)).toEqual(["db", "auth", "app"]);
+        expect(cyclic).toEqual([]);
+    });
+
+    test("ignores dependencies outside the batch", () => {
+        const app = item({ name: "app", dependencies: ["missing"] });
+        expect(names(sortByDependencies([app]).sorted)).toEqual(["app"]);
+    });
+
+    test("reports cycles", () => {
+        const a = item({ name: "a", dependencies: ["b"] });
+        const b = item({ name: "b", dependencies: ["a"] });
+        const c = item({ name: "c", dependencies: ["a"] });
+        const { sorted, cyclic } = sortByDependencies([a, b, c]);
+        expect(names(cyclic).sort()).toEqual(["a", "b"]);
+        expect(names(sorted)).toEqual(["c"]);
+    });
+});
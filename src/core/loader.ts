@@ -2,8 +2,10 @@ import * as fs from "fs";
 import * as path from "path";
 import * as chokidar from "chokidar";
 import { Bot } from "./bot";
-import { Plugin, PluginMeta, Scope } from "./types";
+import { Plugin, PluginMeta, Scope, serviceName } from "./types";
 import { ConfigLoader } from "./config-loader";
+import { schemaComments } from "./config-format";
+import { createAdminPlugin } from "./admin";
 import { Logger, withScope } from "./logger";
 
 const scopeHierarchy: Record<Scope, number> = {
@@ -12,6 +14,59 @@ const scopeHierarchy: Record<Scope, number> = {
     all: 2,
 };
 
+/** 文件变化后等待的时间，合并一次保存多个文件触发的重载 */
+const reloadDebounceMs = 300;
+
+function isPluginFile(file: string): boolean {
+    return file.endsWith(".ts") || file.endsWith(".js");
+}
+
+/** 插件对外提供的名字：插件名与声明的服务名 */
+function providedNames(plugin: Plugin): string[] {
+    return [plugin.meta.name, ...(plugin.meta.provides ?? []).map(serviceName)];
+}
+
+function dependencyNames(plugin: Plugin): string[] {
+    return (plugin.meta.dependencies ?? []).map(serviceName).filter((name) => name !== plugin.meta.name);
+}
+
+/**
+ * 按依赖拓扑排序，被依赖的插件在前
+ * 批次外的依赖不参与排序，注册时再检查是否已加载
+ */
+export function sortByDependencies<T extends { plugin: Plugin }>(items: T[]): { sorted: T[]; cyclic: T[] } {
+    const providers = new Map<string, T>();
+    for (const item of items) {
+        for (const name of providedNames(item.plugin)) providers.set(name, item);
+    }
+    const state = new Map<T, "visiting" | "done">();
+    const sorted: T[] = [];
+    const cyclic = new Set<T>();
+    const visit = (item: T, stack: T[]) => {
+        if (state.get(item) === "done") return;
+        if (state.get(item) === "visiting") {
+            for (const member of stack.slice(stack.indexOf(item))) cyclic.add(member);
+            return;
+        }
+        state.set(item, "visiting");
+        for (const dependency of dependencyNames(item.plugin)) {
+            const provider = providers.get(dependency);
+            if (provider && provider !== item) visit(provider, [...stack, item]);
+        }
+        state.set(item, "done");
+        sorted.push(item);
+    };
+    for (const item of items) visit(item, []);
+    return { sorted: sorted.filter((item) => !cyclic.has(item)), cyclic: [...cyclic] };
+}
+
+/** 从插件入口导入的模块 */
+interface ImportedEntry {
+    entry: string;
+    fullPath: string;
+    plugins: Plugin[];
+}
+
 function isScopeAllowed(pluginScope: Scope | undefined, commandScope: Scope | undefined): boolean {
     const p = pluginScope ?? "all";
     const c = commandScope ?? "all";
@@ -28,6 +83,14 @@ export class PluginLoader {
     private pluginPaths = new Map<string, string>();
     // 存储 fullPath -> pluginNames[] (一个文件可能包含多个插件)
     private pathRef = new Map<string, string[]>();
+    // 存储入口（插件文件或插件目录）-> fullPath
+    private entryPaths = new Map<string, string>();
+    // 等待重载的入口 -> 防抖定时器
+    private pendingReloads = new Map<string, ReturnType<typeof setTimeout>>();
+    // 串行执行重载，避免 onLoad/onUnload 尚未完成时同一入口再次加载
+    private reloading: Promise<void> = Promise.resolve();
+    // 因缺少依赖或循环依赖未能加载的入口，其他插件重载后重试
+    private waitingEntries = new Set<string>();
     constructor(bot: Bot, pluginDir: string, configLoader: ConfigLoader) {
         this.bot = bot;
         this.pluginDir = path.resolve(pluginDir);
@@ -35,125 +98,247 @@ export class PluginLoader {
         this.logger = withScope("PluginLoader");
     }
 
-    public start() {
-        this.loadAll();
+    /**
+     * 加载插件目录中的所有插件，返回的 Promise 在所有插件的 onLoad 完成后结束
+     */
+    public async start() {
+        await this.bot.registerPlugin(createAdminPlugin(this.bot, this, this.configLoader));
+        await this.loadAll();
         this.watch();
     }
 
-    private loadAll() {
+    private async loadAll() {
         const files = fs.readdirSync(this.pluginDir);
+        const entries: ImportedEntry[] = [];
         for (const file of files) {
             if (
-                file.endsWith(".ts") ||
-                file.endsWith(".js") ||
+                isPluginFile(file) ||
                 fs.statSync(path.join(this.pluginDir, file)).isDirectory()
             ) {
-                this.loadPlugin(path.join(this.pluginDir, file));
+                const imported = this.importEntry(path.join(this.pluginDir, file));
+                if (imported) entries.push(imported);
             }
         }
+        await this.loadEntries(entries);
         this.bot.registerCommand();
     }
 
     private watch() {
         this.watcher = chokidar.watch(this.pluginDir, {
-            ignored: /(^|[\/\\])\../, // 忽略隐藏文件
+            ignored: [/(^|[\/\\])\../, /node_modules/], // 忽略隐藏文件与依赖
             persistent: true,
-            depth: 1, // 仅监听一层或两层
+            ignoreInitial: true, // 启动时已有的插件由 loadAll 加载
         });
 
         this.watcher
             .on("add", (filePath) => {
+                const entry = this.entryOf(filePath);
+                if (!entry) return;
+                // 单文件插件已加载时无需重复加载
+                if (entry === path.resolve(filePath) && this.entryPaths.has(entry)) return;
                 this.logger.info(`File added: ${filePath}`);
-                // 首次启动时 loadAll 已经加载过，这里需要防抖或者判断是否已加载
-                // 实际上 chokidar 启动时会触发 add，需要处理
+                this.scheduleReload(entry);
             })
             .on("change", (filePath) => {
+                const entry = this.entryOf(filePath);
+                if (!entry) return;
                 this.logger.info(`File changed: ${filePath}`);
-                this.reloadPlugin(filePath);
+                this.scheduleReload(entry);
             })
             .on("unlink", (filePath) => {
+                const entry = this.entryOf(filePath);
+                if (!entry) return;
                 this.logger.info(`File removed: ${filePath}`);
-                this.unloadPlugin(filePath);
+                // 目录插件中的文件被删除时重载，入口不存在时 reloadEntry 只会卸载
+                this.scheduleReload(entry);
+            })
+            .on("unlinkDir", (dirPath) => {
+                const entry = path.resolve(dirPath);
+                if (path.dirname(entry) !== this.pluginDir) return;
+                this.logger.info(`Directory removed: ${dirPath}`);
+                this.scheduleReload(entry);
             });
     }
+
+    /**
+     * 获取文件所属插件的入口：插件目录下的单文件插件本身，或目录插件的目录
+     */
+    private entryOf(filePath: string): string | null {
+        const relative = path.relative(this.pluginDir, path.resolve(filePath));
+        if (!relative || relative.startsWith("..")) return null;
+        const [first, ...rest] = relative.split(path.sep);
+        if (rest.length === 0 && !isPluginFile(first)) return null;
+        return path.join(this.pluginDir, first);
+    }
+
+    private scheduleReload(entry: string) {
+        clearTimeout(this.pendingReloads.get(entry));
+        this.pendingReloads.set(
+            entry,
+            setTimeout(() => {
+                this.pendingReloads.delete(entry);
+                this.reloadEntry(entry);
+            }, reloadDebounceMs)
+        );
+    }
+
+    /**
+     * 清理入口相关的 require 缓存，目录插件会清理目录下所有模块
+     */
+    private clearCache(entry: string, fullPath: string) {
+        delete require.cache[fullPath];
+        const prefix = entry + path.sep;
+        for (const key of Object.keys(require.cache)) {
+            if (key.startsWith(prefix)) delete require.cache[key];
+        }
+    }
+
     private getFullPath(filePath: string): string | null {
         try {
-            return require.resolve(filePath);
+            // 已删除的文件仍可能从模块缓存中解析到
+            const fullPath = require.resolve(filePath);
+            return fs.existsSync(fullPath) ? fullPath : null;
         } catch (e) {
             return null;
         }
     }
 
-    private async loadPlugin(filePath: string) {
+    /**
+     * 导入入口模块，返回其中声明了 meta.name 的插件
+     */
+    private importEntry(filePath: string): ImportedEntry | null {
         const fullPath = this.getFullPath(filePath);
         if (!fullPath) {
             this.logger.error(`Cannot resolve path: ${filePath}`);
-            return;
+            return null;
         }
 
+        const entry = path.resolve(filePath);
         try {
             // 1. 无论是初次加载还是重载，都先清理该路径缓存
-            delete require.cache[fullPath];
+            this.clearCache(entry, fullPath);
 
             // 2. 导入模块
             const module = require(fullPath);
             const exported = module.default || module;
-
             const plugins: Plugin[] = Array.isArray(exported) ? exported : [exported];
-            const loadedPluginNames: string[] = [];
 
-            for (const plugin of plugins) {
-                // 3. 元数据校验
-                if (!plugin.meta?.name) {
+            // 3. 元数据校验
+            return {
+                entry,
+                fullPath,
+                plugins: plugins.filter((plugin) => {
+                    if (plugin.meta?.name) return true;
                     this.logger.error(`Invalid plugin at ${fullPath}: missing meta.name`);
-                    continue;
-                }
+                    return false;
+                }),
+            };
+        } catch (err) {
+            this.logger.error(`Failed to load plugin from ${fullPath}:`, err);
+            return null;
+        }
+    }
 
-                const pluginName = plugin.meta.name;
+    /**
+     * 按依赖顺序注册多个入口中的插件，缺少依赖的插件会被跳过并在之后重试
+     */
+    private async loadEntries(entries: ImportedEntry[]) {
+        const items = entries.flatMap((imported) =>
+            imported.plugins.map((plugin) => ({ plugin, imported }))
+        );
+        const { sorted, cyclic } = sortByDependencies(items);
+        const loaded = new Map<ImportedEntry, string[]>(entries.map((imported) => [imported, []]));
 
-                // 4. 检查是否已经存在同名插件（热重载安全防护）
-                if (this.pluginPaths.has(pluginName)) {
-                    this.bot.unregisterPlugin(pluginName, true);
-                }
+        for (const { plugin, imported } of cyclic) {
+            this.logger.error(`Skipped ${plugin.meta.name}: circular dependency`);
+            this.waitingEntries.add(imported.entry);
+        }
+        for (const { plugin, imported } of sorted) {
+            const missing = this.missingDependencies(plugin);
+            if (missing.length > 0) {
+                this.logger.error(
+                    `Skipped ${plugin.meta.name}: missing dependencies ${missing.join(", ")}`
+                );
+                this.waitingEntries.add(imported.entry);
+                continue;
+            }
+            if (await this.loadPlugin(plugin, imported.fullPath)) {
+                loaded.get(imported)!.push(plugin.meta.name);
+            }
+        }
 
-                // 4.1 验证命令 scope
-                if (plugin.commands) {
-                    const pluginScope = plugin.meta.scope;
-                    for (const cmd of plugin.commands) {
-                        const cmdScope = cmd.scope;
-                        if (!isScopeAllowed(pluginScope, cmdScope)) {
-                            this.logger.warn(
-                                `Plugin ${pluginName}: command "${cmd.name}" has scope "${
-                                    cmdScope ?? "all"
-                                }" ` +
-                                    `which is not allowed by plugin scope "${pluginScope ?? "all"}"`
-                            );
-                        }
-                    }
-                }
+        // 建立文件到多个插件名的映射
+        for (const [imported, pluginNames] of loaded) {
+            this.pathRef.set(imported.fullPath, pluginNames);
+            this.entryPaths.set(imported.entry, imported.fullPath);
+        }
+    }
+
+    /**
+     * 插件依赖中尚未由已注册插件提供的插件名或服务名
+     */
+    private missingDependencies(plugin: Plugin): string[] {
+        const available = new Set([...this.bot.plugins.values()].flatMap(providedNames));
+        return dependencyNames(plugin).filter((name) => !available.has(name));
+    }
 
-                // 5. 建立索引
-                this.pluginPaths.set(pluginName, fullPath);
-                loadedPluginNames.push(pluginName);
+    private async loadPlugin(plugin: Plugin, fullPath: string): Promise<boolean> {
+        const pluginName = plugin.meta.name;
+        try {
+            // 4. 检查是否已经存在同名插件（热重载安全防护）
+            if (this.pluginPaths.has(pluginName)) {
+                await this.bot.unregisterPlugin(pluginName, true);
+            }
 
-                // 6. 注入配置并注册
-                plugin.config = this.configLoader.getConfig(pluginName, plugin.config);
-                this.configLoader.syncConfig(pluginName, plugin.config);
-                this.bot.registerPlugin(plugin);
+            // 4.1 验证命令 scope
+            if (plugin.commands) {
+                const pluginScope = plugin.meta.scope;
+                for (const cmd of plugin.commands) {
+                    const cmdScope = cmd.scope;
+                    if (!isScopeAllowed(pluginScope, cmdScope)) {
+                        this.logger.warn(
+                            `Plugin ${pluginName}: command "${cmd.name}" has scope "${
+                                cmdScope ?? "all"
+                            }" ` +
+                                `which is not allowed by plugin scope "${pluginScope ?? "all"}"`
+                        );
+                    }
+                }
+            }
 
-                this.logger.success(`Successfully loaded: ${pluginName}`);
+            // 5. 注入配置
+            const defaults = this.configLoader.defaultConfig(plugin);
+            const comments = schemaComments(plugin.configSchema);
+            const config = this.configLoader.getConfig(pluginName, defaults, comments);
+            this.configLoader.syncConfig(pluginName, defaults, comments);
+            // 首次加载时没有可保留的配置，校验失败则退回默认配置
+            if (
+                !this.configLoader.applyPluginConfig(plugin, config) &&
+                !this.configLoader.applyPluginConfig(plugin, defaults)
+            ) {
+                this.logger.error(`Skipped ${pluginName}: no valid config`);
+                return false;
             }
+            this.configLoader.refreshGroupConfigs(plugin);
 
-            // 建立文件到多个插件名的映射
-            this.pathRef.set(fullPath, loadedPluginNames);
+            // 6. 注册并建立索引，onLoad 失败时跳过该插件
+            await this.bot.registerPlugin(plugin);
+            this.pluginPaths.set(pluginName, fullPath);
+
+            this.logger.success(`Successfully loaded: ${pluginName}`);
+            return true;
         } catch (err) {
-            this.logger.error(`Failed to load plugin from ${fullPath}:`, err);
+            this.logger.error(`Failed to load ${pluginName}:`, err);
+            return false;
         }
     }
 
-    private unloadPlugin(filePath: string) {
-        const fullPath = this.getFullPath(filePath);
+    private async unloadPlugin(filePath: string) {
+        // 文件已被删除时无法 resolve，使用加载时记录的路径
+        const entry = path.resolve(filePath);
+        const fullPath = this.entryPaths.get(entry) ?? this.getFullPath(filePath);
         if (!fullPath) return;
+        this.entryPaths.delete(entry);
 
         // 直接通过路径索引获取插件名列表，无需循环
         const pluginNames = this.pathRef.get(fullPath);
@@ -161,7 +346,7 @@ export class PluginLoader {
         if (pluginNames && pluginNames.length > 0) {
             for (const pluginName of pluginNames) {
                 // 1. 调用 Bot 的注销逻辑
-                this.bot.unregisterPlugin(pluginName);
+                await this.bot.unregisterPlugin(pluginName);
 
                 // 2. 清理内部映射记录
                 this.pluginPaths.delete(pluginName);
@@ -175,11 +360,91 @@ export class PluginLoader {
         }
 
         // 无论是否匹配到插件名，都清理一次 require 缓存
-        delete require.cache[fullPath];
+        this.clearCache(entry, fullPath);
     }
-    private reloadPlugin(filePath: string) {
-        this.unloadPlugin(filePath);
-        this.loadPlugin(filePath);
-        this.bot.registerCommand();
+    private pluginsOf(entry: string): Plugin[] {
+        const fullPath = this.entryPaths.get(entry);
+        const pluginNames = (fullPath && this.pathRef.get(fullPath)) || [];
+        return pluginNames.flatMap((name) => this.bot.plugins.get(name) ?? []);
+    }
+
+    /**
+     * 直接或间接依赖入口中插件的其他入口，越靠后依赖越深
+     */
+    private dependentEntries(entry: string): string[] {
+        const result: string[] = [];
+        const queue = [entry];
+        while (queue.length > 0) {
+            const provided = new Set(this.pluginsOf(queue.shift()!).flatMap(providedNames));
+            for (const other of this.entryPaths.keys()) {
+                if (other === entry || result.includes(other)) continue;
+                const dependsOn = this.pluginsOf(other).some((plugin) =>
+                    dependencyNames(plugin).some((name) => provided.has(name))
+                );
+                if (dependsOn) {
+                    result.push(other);
+                    queue.push(other);
+                }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * 插件是否由 PluginLoader 从插件目录加载（内置插件返回 false）
+     */
+    public isLoaded(pluginName: string): boolean {
+        return this.pluginPaths.has(pluginName);
+    }
+
+    /**
+     * 按插件名重新加载插件所在的文件
+     * @returns 插件不是从插件目录加载的时返回 false
+     */
+    public async reload(pluginName: string): Promise<boolean> {
+        const fullPath = this.pluginPaths.get(pluginName);
+        const entry = [...this.entryPaths].find(([, p]) => p === fullPath)?.[0];
+        if (!entry) return false;
+        await this.reloadEntry(entry);
+        return true;
+    }
+
+    /**
+     * 卸载并重新加载入口，入口已不存在时只卸载
+     */
+    private reloadEntry(entry: string): Promise<void> {
+        this.reloading = this.reloading.then(async () => {
+            // 依赖该入口的插件一起重载，之前缺少依赖的插件也重试一次
+            const entries = [
+                ...new Set([entry, ...this.dependentEntries(entry), ...this.waitingEntries]),
+            ];
+            this.waitingEntries.clear();
+            // 按依赖拓扑排序，依赖方先卸载，成环与没有已注册插件的入口最后卸载
+            const loaded = entries.flatMap((target) =>
+                this.pluginsOf(target).map((plugin) => ({ entry: target, plugin }))
+            );
+            const { sorted, cyclic } = sortByDependencies(loaded);
+            const unloadOrder = new Set([
+                ...[...sorted].reverse().map((item) => item.entry),
+                ...cyclic.map((item) => item.entry),
+                ...entries.filter((target) => this.entryPaths.has(target)),
+            ]);
+            for (const target of unloadOrder) {
+                await this.unloadPlugin(target);
+            }
+            const imported: ImportedEntry[] = [];
+            for (const target of entries) {
+                if (!this.getFullPath(target)) continue;
+                const result = this.importEntry(target);
+                // 依赖方可能因依赖文件被删除而导入失败
+                if (result) imported.push(result);
+                else this.waitingEntries.add(target);
+            }
+            await this.loadEntries(imported);
+            this.bot.registerCommand();
+        }).catch((err) => {
+            this.logger.error(`Failed to reload ${entry}:`, err);
+        });
+        return this.reloading;
     }
 }
@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+import type { NapLink } from "@naplink/naplink";
+import { OutboundPipeline } from "./outbound";
+import { createTestHarness } from "./testing";
+import { VirtualClient } from "./transport";
+import { OutboundMiddlewareSpec, OutgoingMessage, createCommand } from "./types";
+import { definePlugin } from "./utils";
+
+const text = (text: string) => [{ type: "text" as const, data: { text } }];
+
+/**
+ * 记录经过出站中间件的消息，outbound 为额外的出站中间件
+ */
+async function harnessFor(...outbound: OutboundMiddlewareSpec[]) {
+    const seen: OutgoingMessage[] = [];
+    const plugin = definePlugin({
+        meta: { name: "outbound", version: "1.0.0" },
+        outbound: [
+            {
+                name: "record",
+                priority: -100,
+                handler: async (message, next) => {
+                    seen.push(structuredClone(message));
+                    await next();
+                },
+            },
+            ...outbound,
+        ],
+        commands: [
+            createCommand({
+                name: "hi",
+                description: "回复 hi",
+                handler: async (ctx) => {
+                    await ctx.reply.text("hi").commit();
+                },
+            }),
+        ],
+    });
+    const harness = await createTestHarness({ plugins: [plugin] });
+    return { harness, seen, client: harness.bot.client };
+}
+
+describe("OutboundPipeline", () => {
+    test("runs middlewares by priority, keeping registration order on ties", async () => {
+        const calls: string[] = [];
+        const pipeline = new OutboundPipeline();
+        const trace = (name: string, priority?: number) => ({
+            name,
+            priority,
+            handler: async (_: OutgoingMessage, next: () => Promise<void>) => {
+                calls.push(name);
+                await next();
+            },
+        });
+        pipeline.use(trace("a"));
+        pipeline.use(trace("b", 10));
+        pipeline.use(trace("c"));
+        expect(pipeline.list().map((m) => m.name)).toEqual(["b", "a", "c"]);
+
+        const result = await pipeline.send(
+            { type: "private", target: 1, message: "hi" },
+            async () => "sent"
+        );
+        expect(calls).toEqual(["b", "a", "c"]);
+        expect(result).toBe("sent");
+    });
+
+    test("skips middlewares of disabled or removed plugins", async () => {
+        const calls: string[] = [];
+        const pipeline = new OutboundPipeline((pluginName, groupId) => pluginName !== "off" || !groupId);
+        const middleware = (name: string) => async (_: OutgoingMessage, next: () => Promise<void>) => {
+            calls.push(name);
+            await next();
+        };
+        pipeline.use(middleware("on"), "on");
+        pipeline.use({ name: "off", handler: middleware("off") }, "off");
+        await pipeline.send({ type: "group", target: 1, message: "hi" }, async () => {});
+        await pipeline.send({ type: "private", target: 1, message: "hi" }, async () => {});
+        expect(calls).toEqual(["on", "on", "off"]);
+
+        pipeline.remove("on");
+        expect(pipeline.list().map((m) => m.pluginName)).toEqual(["off"]);
+    });
+
+    test("install refuses clients without apiClient.call", () => {
+        const client = new VirtualClient();
+        (client as any).apiClient = undefined;
+        expect(() => new OutboundPipeline().install(client as unknown as NapLink)).toThrow(
+            "client has no apiClient.call"
+        );
+    });
+});
+
+describe("outbound middleware", () => {
+    test("sees ctx.reply", async () => {
+        const { harness, seen } = await harnessFor();
+        await harness.simulateMessage({ text: "hi", groupId: 3 });
+        expect(seen).toEqual([{ type: "group", target: 3, message: text("hi") }]);
+        harness.expectReply("hi");
+    });
+
+    test("sees every send path of the client", async () => {
+        const { harness, seen, client } = await harnessFor();
+        const forward = [{ type: "node" as const, data: { content: text("node") } }];
+        await client.sendMessage({ message_type: "group", group_id: 1, message: text("send_msg") });
+        await client.sendGroupMessage(2, text("group"));
+        await client.sendPrivateMessage(3, text("private"));
+        await client.sendForwardMsg({ user_id: 4, messages: forward });
+        await client.sendGroupForwardMessage(5, forward);
+        await client.sendPrivateForwardMessage({ user_id: 6, messages: forward });
+        await client.callApi("send_msg", { user_id: 7, message: "string" });
+        await client["apiClient"].call("send_group_msg", { group_id: 8, message: text("raw") });
+
+        const expected: OutgoingMessage[] = [
+            { type: "group", target: 1, message: text("send_msg") },
+            { type: "group", target: 2, message: text("group") },
+            { type: "private", target: 3, message: text("private") },
+            { type: "private", target: 4, message: forward },
+            { type: "group", target: 5, message: forward },
+            { type: "private", target: 6, message: forward },
+            { type: "private", target: 7, message: "string" },
+            { type: "group", target: 8, message: text("raw") },
+        ];
+        expect(seen).toEqual(expected);
+        expect(harness.sent.map(({ type, target }) => ({ type, target }))).toEqual(
+            expected.map(({ type, target }) => ({ type, target }))
+        );
+        expect(harness.sent[6].message).toEqual(text("string"));
+    });
+
+    test("sees pokes as poke segments", async () => {
+        const { harness, seen, client } = await harnessFor();
+        await client.sendPoke(2, 1);
+        await client.sendGroupPoke(1, 3);
+        await client.sendFriendPoke(4);
+        expect(seen).toEqual([
+            { type: "group", target: 1, message: [{ type: "poke", data: { qq: "2" } }] },
+            { type: "group", target: 1, message: [{ type: "poke", data: { qq: "3" } }] },
+            { type: "private", target: 4, message: [{ type: "poke", data: { qq: "4" } }] },
+        ]);
+        expect(harness.apiCalls.map((call) => call.args[0])).toEqual([
+            { group_id: 1, target_id: "2" },
+            { group_id: 1, target_id: "3" },
+            { user_id: "4" },
+        ]);
+    });
+
+    test("can rewrite the target and content", async () => {
+        const { harness } = await harnessFor({
+            name: "redirect",
+            handler: async (message, next) => {
+                message.type = "group";
+                message.target = 100;
+                if (typeof message.message !== "string") {
+                    message.message = [...text("[dev] "), ...message.message];
+                }
+                await next();
+            },
+        });
+        await harness.simulateMessage({ text: "hi", userId: 2 });
+        expect(harness.sent).toHaveLength(1);
+        expect(harness.sent[0].type).toBe("group");
+        expect(harness.sent[0].target).toBe(100);
+        harness.expectReply("[dev] hi");
+    });
+
+    test("can drop messages", async () => {
+        const { harness, seen, client } = await harnessFor({
+            name: "filter",
+            priority: 10,
+            handler: async () => {},
+        });
+        await harness.simulateMessage({ text: "hi" });
+        expect(await client.sendPrivateMessage(1, text("blocked"))).toBeUndefined();
+        expect(seen).toEqual([]);
+        harness.expectNoReply();
+    });
+
+    test("does not intercept other actions", async () => {
+        const { harness, seen, client } = await harnessFor();
+        await client.callApi("set_group_ban", { group_id: 1, user_id: 2, duration: 60 });
+        await client.deleteMessage(5);
+        expect(seen).toEqual([]);
+        expect(harness.apiCalls).toEqual([
+            { method: "set_group_ban", args: [{ group_id: 1, user_id: 2, duration: 60 }] },
+        ]);
+        expect(harness.recalls).toEqual([5]);
+    });
+});
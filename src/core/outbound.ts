@@ -0,0 +1,184 @@
+import type { NapLink } from "@naplink/naplink";
+import { isForwardMessage, type PokeSegment } from "./reply";
+import type { OutboundMiddleware, OutboundMiddlewareSpec, OutgoingMessage } from "./types";
+
+/** 出站中间件链中的一项，通过 bot.outbound.list() 获取 */
+export interface ActiveOutboundMiddleware {
+    name: string;
+    priority: number;
+    pluginName?: string;
+}
+
+interface RegisteredOutbound extends ActiveOutboundMiddleware {
+    handler: OutboundMiddleware;
+}
+
+/** 发送消息的 OneBot action */
+const sendActions = [
+    "send_msg",
+    "send_group_msg",
+    "send_private_msg",
+    "send_forward_msg",
+    "send_group_forward_msg",
+    "send_private_forward_msg",
+];
+
+/** 戳一戳的 OneBot action，以 poke 消息段的形式经过出站中间件 */
+const pokeActions = ["send_poke", "group_poke", "friend_poke"];
+
+/** 决定发送目标与内容的参数，其余参数（auto_escape、prompt 等）原样转发 */
+const routingKeys = ["message_type", "group_id", "user_id", "target_id", "message", "messages"];
+
+function isPokeMessage(message: OutgoingMessage["message"]): message is PokeSegment[] {
+    return (
+        typeof message !== "string" && message.length > 0 && message.every((seg) => seg.type === "poke")
+    );
+}
+
+/**
+ * 将发送 action 的参数转换为出站消息，字符串消息保持原样
+ */
+function toOutgoing(action: string, params: any): OutgoingMessage {
+    if (pokeActions.includes(action)) {
+        const isGroup = params.group_id !== undefined;
+        const qq = String(params.target_id ?? params.user_id);
+        return {
+            type: isGroup ? "group" : "private",
+            target: Number(isGroup ? params.group_id : params.user_id),
+            message: [{ type: "poke", data: { qq } }],
+        };
+    }
+    const isGroup = action.startsWith("send_group")
+        ? true
+        : action.startsWith("send_private")
+        ? false
+        : params.message_type
+        ? params.message_type === "group"
+        : params.group_id !== undefined;
+    const message = params.messages ?? params.message;
+    return {
+        type: isGroup ? "group" : "private",
+        target: Number(isGroup ? params.group_id : params.user_id),
+        message: typeof message === "string" || Array.isArray(message) ? message : [message],
+    };
+}
+
+/**
+ * 出站消息管道
+ *
+ * install 后通过客户端发送的消息都会先经过出站中间件，包括 ctx.reply、
+ * 插件直接调用的 ctx.client.sendGroupMessage、client.api.sendForwardMsg、callApi("send_msg") 等。
+ * 戳一戳以只含 poke 消息段的消息经过出站中间件，通过后以 send_poke 发送。
+ * 合并转发消息的 message 全部由 node 消息段组成。
+ */
+export class OutboundPipeline {
+    private middlewares: RegisteredOutbound[] = [];
+    /** 判断中间件所属插件是否启用，群聊消息传入群号 */
+    private isEnabled: (pluginName: string | undefined, groupId?: number) => boolean;
+
+    constructor(isEnabled: OutboundPipeline["isEnabled"] = () => true) {
+        this.isEnabled = isEnabled;
+    }
+
+    /**
+     * @param pluginName 所属插件，插件注销时自动移除
+     */
+    public use(middleware: OutboundMiddleware | OutboundMiddlewareSpec, pluginName?: string) {
+        const spec: OutboundMiddlewareSpec =
+            typeof middleware === "function" ? { handler: middleware } : middleware;
+        this.middlewares.push({
+            name: spec.name || spec.handler.name || "anonymous",
+            priority: spec.priority ?? 0,
+            pluginName,
+            handler: spec.handler,
+        });
+        // sort 是稳定的，相同优先级保持注册顺序
+        this.middlewares.sort((a, b) => b.priority - a.priority);
+    }
+
+    public remove(pluginName: string) {
+        this.middlewares = this.middlewares.filter((m) => m.pluginName !== pluginName);
+    }
+
+    /**
+     * 按执行顺序列出出站中间件，用于调试
+     */
+    public list(): ActiveOutboundMiddleware[] {
+        return this.middlewares.map(({ name, priority, pluginName }) => ({
+            name,
+            priority,
+            pluginName,
+        }));
+    }
+
+    /**
+     * 让消息经过出站中间件，全部通过后交给 deliver 发送
+     * @returns deliver 的返回值，消息被拦截时为 undefined
+     */
+    public async send(
+        message: OutgoingMessage,
+        deliver: (message: OutgoingMessage) => Promise<any>
+    ): Promise<any> {
+        const groupId = message.type === "group" ? message.target : undefined;
+        const chain = this.middlewares.filter((m) => this.isEnabled(m.pluginName, groupId));
+        let result: any;
+        const run = async (index: number): Promise<void> => {
+            if (index < chain.length) {
+                await chain[index].handler(message, () => run(index + 1));
+            } else {
+                result = await deliver(message);
+            }
+        };
+        await run(0);
+        return result;
+    }
+
+    /**
+     * 替换客户端的 apiClient.call，使所有发送 action 经过出站管道
+     *
+     * NapLink 的客户端方法、client.api、client.api.raw 与 callApi 最终都调用 apiClient.call，
+     * 只需替换这一处。apiClient 不是 NapLink 的公开接口，结构变化时在这里报错，
+     * 避免消息静默绕过出站中间件。
+     */
+    public install(client: NapLink) {
+        const apiClient = client["apiClient"];
+        if (typeof apiClient?.call !== "function") {
+            throw new Error("Cannot install outbound pipeline: client has no apiClient.call");
+        }
+        const call: (action: string, params?: any, options?: any) => Promise<any> =
+            apiClient.call.bind(apiClient);
+
+        // 中间件可能修改 type 与 target，按最终的值发送
+        const deliver = async (message: OutgoingMessage, params: any, options: any) => {
+            if (isPokeMessage(message.message)) {
+                let result: any;
+                for (const seg of message.message) {
+                    const target =
+                        message.type === "group"
+                            ? { group_id: message.target, target_id: seg.data.qq }
+                            : { user_id: seg.data.qq };
+                    result = await call("send_poke", target, options);
+                }
+                return result;
+            }
+            const extra = Object.fromEntries(
+                Object.entries(params).filter(([key]) => !routingKeys.includes(key))
+            );
+            const target =
+                message.type === "group" ? { group_id: message.target } : { user_id: message.target };
+            if (typeof message.message !== "string" && isForwardMessage(message.message)) {
+                return call("send_forward_msg", { ...extra, ...target, messages: message.message }, options);
+            }
+            return call(
+                "send_msg",
+                { ...extra, message_type: message.type, ...target, message: message.message },
+                options
+            );
+        };
+
+        apiClient.call = (action: string, params: any = {}, options?: any) =>
+            sendActions.includes(action) || pokeActions.includes(action)
+                ? this.send(toOutgoing(action, params), (message) => deliver(message, params, options))
+                : call(action, params, options);
+    }
+}
@@ -0,0 +1,145 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { createTestHarness } from "./testing";
+import { CommandPermissionConfig, PermissionLevel, createCommand } from "./types";
+import { definePlugin } from "./utils";
+
+async function harnessFor(permission?: CommandPermissionConfig | PermissionLevel) {
+    const plugin = definePlugin({
+        meta: { name: "guarded", version: "1.0.0" },
+        commands: [
+            createCommand({
+                name: "run <target>",
+                description: "受保护的命令",
+                aliases: ["go"],
+                args: [z.string()],
+                permission,
+                handler: async (ctx) => {
+                    await ctx.reply.text("ok").commit();
+                },
+            }),
+        ],
+    });
+    const harness = await createTestHarness({ plugins: [plugin] });
+    return { harness, permission: harness.bot.config.permission };
+}
+
+describe("PermissionManager.check", () => {
+    test("allows by default", async () => {
+        const { harness } = await harnessFor();
+        await harness.simulateMessage({ text: "run x", groupId: 1 });
+        harness.expectReply(/^ok$/);
+    });
+
+    test("1. global blacklists", async () => {
+        const { harness, permission } = await harnessFor();
+        permission.blacklistedUsers.push(2);
+        permission.blacklistedGroups.push(1);
+        await harness.simulateMessage({ text: "run x", userId: 2 });
+        harness.expectReply("你已被加入黑名单");
+        await harness.simulateMessage({ text: "run x", groupId: 1 });
+        harness.expectReply("本群已被加入黑名单");
+    });
+
+    test("2. group disables, including by basename and alias", async () => {
+        const { harness, permission } = await harnessFor("user");
+        permission.groups["1"] = { disabled: true };
+        permission.groups["2"] = { disabledPlugins: ["guarded"] };
+        permission.groups["3"] = { disabledCommands: ["run"] };
+        permission.groups["4"] = { disabledCommands: ["go"] };
+        await harness.simulateMessage({ text: "run x", groupId: 1 });
+        harness.expectReply("机器人已在本群禁用");
+        await harness.simulateMessage({ text: "run x", groupId: 2 });
+        harness.expectReply("插件 guarded 已在本群禁用");
+        await harness.simulateMessage({ text: "run x", groupId: 3 });
+        harness.expectReply("命令 run 已在本群禁用");
+        await harness.simulateMessage({ text: "go x", groupId: 4 });
+        harness.expectReply("命令 run 已在本群禁用");
+        await harness.simulateMessage({ text: "run x", groupId: 5 });
+        harness.expectReply(/^ok$/);
+    });
+
+    test("2. group disables apply before the level check", async () => {
+        const { harness, permission } = await harnessFor("owner");
+        permission.groups["1"] = { disabledPlugins: ["guarded"] };
+        await harness.simulateMessage({ text: "run x", groupId: 1 });
+        harness.expectReply("插件 guarded 已在本群禁用");
+    });
+
+    test("3. command blacklists apply before the whitelist", async () => {
+        const { harness } = await harnessFor({
+            users: [2, 3],
+            blacklistedUsers: [2],
+            blacklistedGroups: [1],
+        });
+        await harness.simulateMessage({ text: "run x", userId: 2 });
+        harness.expectReply("你没有权限使用该命令");
+        await harness.simulateMessage({ text: "run x", userId: 3, groupId: 1 });
+        harness.expectReply("本群无法使用该命令");
+    });
+
+    test("4. command whitelists", async () => {
+        const { harness } = await harnessFor({ users: [2, 3], groups: [1] });
+        await harness.simulateMessage({ text: "run x", userId: 4 });
+        harness.expectReply("你不在该命令的白名单中");
+        await harness.simulateMessage({ text: "run x", userId: 2, groupId: 5 });
+        harness.expectReply("本群不在该命令的白名单中");
+        await harness.simulateMessage({ text: "run x", userId: 3, groupId: 1 });
+        harness.expectReply(/^ok$/);
+    });
+
+    test("5. permission levels", async () => {
+        const { harness, permission } = await harnessFor("admin");
+        await harness.simulateMessage({ text: "run x", groupId: 1 });
+        harness.expectReply("需要 admin 权限，当前为 user");
+        await harness.simulateMessage({ text: "run x", groupId: 1, role: "admin" });
+        harness.expectReply(/^ok$/);
+        permission.admins.push(2);
+        await harness.simulateMessage({ text: "run x", userId: 2 });
+        harness.expectReply(/^ok$/);
+    });
+
+    test("6. globally disabled plugins", async () => {
+        const { harness, permission } = await harnessFor();
+        permission.disabledPlugins.push("guarded");
+        await harness.simulateMessage({ text: "run x" });
+        harness.expectReply("插件 guarded 已禁用");
+    });
+
+    test("7. globally disabled commands", async () => {
+        const { harness, permission } = await harnessFor();
+        permission.disabledCommands.push("go");
+        await harness.simulateMessage({ text: "run x" });
+        harness.expectReply("命令 run 已禁用");
+
+        const disabled = await harnessFor({ disabled: true });
+        await disabled.harness.simulateMessage({ text: "run x" });
+        disabled.harness.expectReply("命令 run 已禁用");
+    });
+
+    test("stays silent when replyOnDeny is off", async () => {
+        const { harness, permission } = await harnessFor("owner");
+        permission.replyOnDeny = false;
+        await harness.simulateMessage({ text: "run x" });
+        harness.expectNoReply();
+    });
+});
+
+describe("PermissionManager.resolveLevel", () => {
+    test("superusers and group owners are owners", async () => {
+        const { harness, permission } = await harnessFor("owner");
+        permission.superusers.push(2);
+        await harness.simulateMessage({ text: "run x", userId: 2 });
+        harness.expectReply(/^ok$/);
+        await harness.simulateMessage({ text: "run x", userId: 3, groupId: 1, role: "owner" });
+        harness.expectReply(/^ok$/);
+        await harness.simulateMessage({ text: "run x", userId: 3, groupId: 1, role: "admin" });
+        harness.expectReply("需要 owner 权限，当前为 admin");
+    });
+
+    test("group roles only count in groups", async () => {
+        const { harness } = await harnessFor("admin");
+        await harness.simulateMessage({ text: "run x", userId: 3, role: "admin" });
+        harness.expectReply("需要 admin 权限，当前为 user");
+    });
+});
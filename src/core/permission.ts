@@ -0,0 +1,160 @@
+import { GroupMessageEvent } from "@naplink/naplink";
+import { Bot, Context } from "./bot";
+import {
+    CommandPermissionConfig,
+    MiddlewareMeta,
+    PermissionLevel,
+    parseCommandBasename,
+} from "./types";
+
+const levelHierarchy: Record<PermissionLevel, number> = {
+    user: 0,
+    admin: 1,
+    owner: 2,
+    superuser: 3,
+};
+
+export interface PermissionResult {
+    allowed: boolean;
+    /** 拒绝原因，用于回复给用户 */
+    reason?: string;
+}
+
+const allow: PermissionResult = { allowed: true };
+
+function deny(reason: string): PermissionResult {
+    return { allowed: false, reason };
+}
+
+/**
+ * 命令是否在禁用列表中，按不含参数的命令名与别名匹配
+ */
+function isCommandListed(list: string[] | undefined, meta: MiddlewareMeta): boolean {
+    if (!list || !meta.commandName) return false;
+    const names = [meta.commandName, parseCommandBasename(meta.commandName), ...(meta.commandAliases ?? [])];
+    return names.some((name) => list.includes(name));
+}
+
+export function normalizePermission(
+    permission: CommandPermissionConfig | PermissionLevel | undefined
+): CommandPermissionConfig | undefined {
+    if (!permission) return undefined;
+    if (typeof permission === "string") return { level: permission };
+    return permission;
+}
+
+export function isLevelAllowed(userLevel: PermissionLevel, required: PermissionLevel): boolean {
+    return levelHierarchy[userLevel] >= levelHierarchy[required];
+}
+
+/**
+ * 权限检查，按 CommandPermissionConfig 文档中的优先级依次判断
+ */
+export class PermissionManager {
+    private bot: Bot;
+
+    constructor(bot: Bot) {
+        this.bot = bot;
+    }
+
+    private get config() {
+        return this.bot.config.permission;
+    }
+
+    /**
+     * 插件是否启用，检查全局与群组的禁用插件列表
+     * 监听器、定时任务与中间件通过它跳过已禁用的插件，未指定插件时总是启用
+     */
+    public isPluginEnabled(pluginName: string | undefined, groupId?: number): boolean {
+        if (!pluginName) return true;
+        if (this.config.disabledPlugins.includes(pluginName)) return false;
+        if (!groupId) return true;
+        return !this.config.groups[groupId.toString()]?.disabledPlugins?.includes(pluginName);
+    }
+
+    /**
+     * 解析发送者的权限等级
+     * 超级用户 > 群主 > 全局管理员 / 群管理员 > 普通用户
+     */
+    public resolveLevel(ctx: Context): PermissionLevel {
+        if (this.config.superusers.includes(ctx.sender_id)) return "superuser";
+        const role = ctx.is_group ? (ctx.raw as GroupMessageEvent).sender.role : undefined;
+        if (role === "owner") return "owner";
+        if (role === "admin" || this.config.admins.includes(ctx.sender_id)) return "admin";
+        return "user";
+    }
+
+    public check(ctx: Context, meta: MiddlewareMeta): PermissionResult {
+        const config = this.config;
+        const permission = normalizePermission(meta.permission);
+        const userId = ctx.sender_id;
+        const groupId = ctx.group_id;
+
+        // 1. 全局黑名单
+        if (config.blacklistedUsers.includes(userId)) {
+            return deny("你已被加入黑名单");
+        }
+        if (ctx.is_group && config.blacklistedGroups.includes(groupId)) {
+            return deny("本群已被加入黑名单");
+        }
+
+        // 2. 群组禁用
+        if (ctx.is_group) {
+            const group = config.groups[groupId.toString()];
+            if (group?.disabled) {
+                return deny("机器人已在本群禁用");
+            }
+            if (group?.disabledPlugins?.includes(meta.pluginName)) {
+                return deny(`插件 ${meta.pluginName} 已在本群禁用`);
+            }
+            if (isCommandListed(group?.disabledCommands, meta)) {
+                return deny(`命令 ${parseCommandBasename(meta.commandName!)} 已在本群禁用`);
+            }
+        }
+
+        // 3. 命令黑名单
+        if (permission?.blacklistedUsers?.includes(userId)) {
+            return deny("你没有权限使用该命令");
+        }
+        if (ctx.is_group && permission?.blacklistedGroups?.includes(groupId)) {
+            return deny("本群无法使用该命令");
+        }
+
+        // 4. 命令白名单
+        if (permission?.users && permission.users.length > 0) {
+            if (!permission.users.includes(userId)) {
+                return deny("你不在该命令的白名单中");
+            }
+        }
+        if (ctx.is_group && permission?.groups && permission.groups.length > 0) {
+            if (!permission.groups.includes(groupId)) {
+                return deny("本群不在该命令的白名单中");
+            }
+        }
+
+        // 5. 权限等级
+        if (permission?.level) {
+            const level = this.resolveLevel(ctx);
+            if (!isLevelAllowed(level, permission.level)) {
+                return deny(`需要 ${permission.level} 权限，当前为 ${level}`);
+            }
+        }
+
+        // 6. 插件全局禁用
+        if (config.disabledPlugins.includes(meta.pluginName)) {
+            return deny(`插件 ${meta.pluginName} 已禁用`);
+        }
+
+        // 7. 命令全局禁用
+        if (meta.commandName) {
+            if (permission?.disabled || isCommandListed(config.disabledCommands, meta)) {
+                return deny(`命令 ${parseCommandBasename(meta.commandName)} 已禁用`);
+            }
+        } else if (permission?.disabled) {
+            return deny("该功能已禁用");
+        }
+
+        // 8. 默认允许
+        return allow;
+    }
+}
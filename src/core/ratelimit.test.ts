@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { Context } from "./bot";
+import { createTestHarness } from "./testing";
+import { RateLimitConfig, createCommand } from "./types";
+import { definePlugin } from "./utils";
+
+async function harnessFor(rateLimit: RateLimitConfig) {
+    const plugin = definePlugin({
+        meta: { name: "limited", version: "1.0.0" },
+        commands: [
+            createCommand({
+                name: "ping",
+                description: "限流的命令",
+                rateLimit,
+                handler: async (ctx) => {
+                    await ctx.reply.text("pong").commit();
+                },
+            }),
+        ],
+    });
+    return createTestHarness({ plugins: [plugin] });
+}
+
+describe("rate limiting", () => {
+    test("allows capacity calls per window", async () => {
+        const harness = await harnessFor({ capacity: 2, per: 60 });
+        await harness.simulateMessage({ text: "ping" });
+        await harness.simulateMessage({ text: "ping" });
+        harness.expectReply(/^pong$/);
+        await harness.simulateMessage({ text: "ping" });
+        harness.expectReply("操作太频繁，请 30 秒后再试");
+        await harness.simulateMessage({ text: "ping", userId: 2 });
+        harness.expectReply(/^pong$/);
+    });
+
+    test("refills tokens over time", async () => {
+        const harness = await harnessFor({ per: 0.2 });
+        await harness.simulateMessage({ text: "ping" });
+        await harness.simulateMessage({ text: "ping" });
+        harness.expectReply("操作太频繁");
+        await harness.wait(250);
+        await harness.simulateMessage({ text: "ping" });
+        harness.expectReply(/^pong$/);
+    });
+
+    test("shares the bucket within a group", async () => {
+        const harness = await harnessFor({ per: 60, scope: "group" });
+        await harness.simulateMessage({ text: "ping", userId: 1, groupId: 3 });
+        await harness.simulateMessage({ text: "ping", userId: 2, groupId: 3 });
+        harness.expectReply("操作太频繁");
+        await harness.simulateMessage({ text: "ping", userId: 2, groupId: 4 });
+        harness.expectReply(/^pong$/);
+    });
+
+    test("admins bypass the limit unless disabled", async () => {
+        const harness = await harnessFor({ per: 60 });
+        for (let i = 0; i < 3; i++) {
+            await harness.simulateMessage({ text: "ping", groupId: 3, role: "admin" });
+            harness.expectReply(/^pong$/);
+        }
+
+        const strict = await harnessFor({ per: 60, bypass: false });
+        await strict.simulateMessage({ text: "ping", groupId: 3, role: "admin" });
+        await strict.simulateMessage({ text: "ping", groupId: 3, role: "admin" });
+        strict.expectReply("操作太频繁");
+    });
+
+    test("message handlers are only charged when they intercept", async () => {
+        const handled: string[] = [];
+        const plugin = definePlugin({
+            meta: { name: "keyword", version: "1.0.0" },
+            messageHandlers: [
+                {
+                    scope: "all",
+                    cooldown: 60,
+                    handler: (ctx: Context) => {
+                        if (ctx.raw.raw_message !== "hello") return false;
+                        handled.push(ctx.raw.raw_message);
+                        return true;
+                    },
+                },
+            ],
+        });
+        const harness = await createTestHarness({ plugins: [plugin] });
+        await harness.simulateMessage({ text: "other" });
+        await harness.simulateMessage({ text: "other" });
+        await harness.simulateMessage({ text: "hello" });
+        await harness.simulateMessage({ text: "hello" });
+        expect(handled).toEqual(["hello"]);
+        harness.expectNoReply();
+    });
+
+    test("invalid limits are rejected before onLoad runs", async () => {
+        let loaded = false;
+        const plugin = definePlugin({
+            meta: { name: "broken", version: "1.0.0" },
+            messageHandlers: [{ scope: "all", rateLimit: { per: 0 }, handler: () => true }],
+            onLoad: () => {
+                loaded = true;
+            },
+        });
+        const harness = await createTestHarness();
+        await expect(harness.bot.registerPlugin(plugin)).rejects.toThrow("per must be greater than 0");
+        expect(loaded).toBe(false);
+        expect(harness.bot.plugins.has("broken")).toBe(false);
+    });
+});
@@ -0,0 +1,127 @@
+import type { Bot, Context } from "./bot";
+import { isLevelAllowed } from "./permission";
+import { BotMiddleware, MiddlewareMeta, RateLimitConfig } from "./types";
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+// 超过该数量时清理已恢复满的令牌桶
+const pruneThreshold = 1000;
+
+/**
+ * 命令与消息处理器的限流
+ * 每个 RateLimitConfig 对象拥有独立的令牌桶集合，插件重载后随配置对象一起重置
+ */
+export class RateLimiter {
+    private bot: Bot;
+    private buckets: WeakMap<RateLimitConfig, Map<string, Bucket>> = new WeakMap();
+
+    constructor(bot: Bot) {
+        this.bot = bot;
+    }
+
+    private bucketKey(ctx: Context, limit: RateLimitConfig): string {
+        switch (limit.scope ?? "user") {
+            case "global":
+                return "global";
+            case "group":
+                return ctx.is_group ? `group:${ctx.group_id}` : `user:${ctx.sender_id}`;
+            default:
+                return `user:${ctx.sender_id}`;
+        }
+    }
+
+    private refill(bucket: Bucket, limit: RateLimitConfig, now: number) {
+        const capacity = limit.capacity ?? 1;
+        const rate = capacity / (limit.per * 1000); // 每毫秒恢复的令牌数
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * rate);
+        bucket.updatedAt = now;
+    }
+
+    private prune(buckets: Map<string, Bucket>, limit: RateLimitConfig, now: number) {
+        const capacity = limit.capacity ?? 1;
+        for (const [key, bucket] of buckets) {
+            this.refill(bucket, limit, now);
+            if (bucket.tokens >= capacity) buckets.delete(key);
+        }
+    }
+
+    /**
+     * 检查是否有可用的令牌，有时返回 0，否则返回需要等待的秒数
+     */
+    public check(ctx: Context, limit: RateLimitConfig): number {
+        return this.acquire(ctx, limit, false);
+    }
+
+    /**
+     * 尝试消耗一个令牌，成功返回 0，否则返回需要等待的秒数
+     */
+    public consume(ctx: Context, limit: RateLimitConfig): number {
+        return this.acquire(ctx, limit, true);
+    }
+
+    private acquire(ctx: Context, limit: RateLimitConfig, take: boolean): number {
+        const now = Date.now();
+        const capacity = limit.capacity ?? 1;
+        let buckets = this.buckets.get(limit);
+        if (!buckets) {
+            buckets = new Map();
+            this.buckets.set(limit, buckets);
+        }
+        if (buckets.size > pruneThreshold) this.prune(buckets, limit, now);
+
+        const key = this.bucketKey(ctx, limit);
+        const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+        this.refill(bucket, limit, now);
+        buckets.set(key, bucket);
+
+        if (bucket.tokens >= 1) {
+            if (take) bucket.tokens -= 1;
+            return 0;
+        }
+        const rate = capacity / limit.per; // 每秒恢复的令牌数
+        return Math.ceil((1 - bucket.tokens) / rate);
+    }
+
+    private canBypass(ctx: Context, limit: RateLimitConfig): boolean {
+        const bypass = limit.bypass ?? this.bot.config.rateLimit.bypass;
+        if (bypass === false) return false;
+        return isLevelAllowed(this.bot.permission.resolveLevel(ctx), bypass);
+    }
+
+    /**
+     * 限流中间件，命令被限流时回复提示，消息处理器被限流时静默跳过
+     * 消息处理器只在拦截消息后消耗令牌，未拦截的消息不计入限流
+     */
+    public middleware: BotMiddleware = async (
+        ctx: Context,
+        meta: MiddlewareMeta,
+        next: () => Promise<void>
+    ) => {
+        const limit = meta.rateLimit;
+        if (!limit || this.canBypass(ctx, limit)) {
+            await next();
+            return;
+        }
+
+        if (meta.type === "message") {
+            if (this.check(ctx, limit) > 0) return;
+            await next();
+            if (ctx.isHandled) this.consume(ctx, limit);
+            return;
+        }
+
+        const wait = this.consume(ctx, limit);
+        if (wait === 0) {
+            await next();
+            return;
+        }
+
+        const message = this.bot.config.rateLimit.message;
+        if (meta.type === "command" && message) {
+            await ctx.reply.text(message.replace("{seconds}", wait.toString())).commit();
+        }
+    };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import type { Context } from "./bot";
+import type { GenericSegment } from "./reply";
+import { createTestHarness } from "./testing";
+import { createCommand } from "./types";
+import { definePlugin } from "./utils";
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n");
+
+async function harnessFor(text: string | ((ctx: Context) => Promise<void>)) {
+    const plugin = definePlugin({
+        meta: { name: "long", version: "1.0.0" },
+        commands: [
+            createCommand({
+                name: "long",
+                description: "长消息",
+                handler: async (ctx) => {
+                    if (typeof text === "string") await ctx.reply.text(text).commit();
+                    else await text(ctx);
+                },
+            }),
+        ],
+    });
+    return createTestHarness({ plugins: [plugin] });
+}
+
+describe("long replies", () => {
+    test("splits by lines", async () => {
+        const harness = await harnessFor(lines(5));
+        Object.assign(harness.bot.config.reply.longMessage, { mode: "split", maxLines: 2, maxSplits: 5 });
+        const sent = await harness.simulateMessage({ text: "long" });
+        expect(sent.map((s) => s.message)).toEqual([
+            [{ type: "text", data: { text: "line 1\nline 2" } }],
+            [{ type: "text", data: { text: "line 3\nline 4" } }],
+            [{ type: "text", data: { text: "line 5" } }],
+        ]);
+    });
+
+    test("hard-cuts a single long line", async () => {
+        const harness = await harnessFor("abcdefg");
+        Object.assign(harness.bot.config.reply.longMessage, { mode: "split", maxLength: 3, maxSplits: 5 });
+        const sent = await harness.simulateMessage({ text: "long" });
+        expect(sent.map((s) => s.message[0])).toEqual([
+            { type: "text", data: { text: "abc" } },
+            { type: "text", data: { text: "def" } },
+            { type: "text", data: { text: "g" } },
+        ]);
+    });
+
+    test("folds into a forward message when there are too many parts", async () => {
+        const harness = await harnessFor(lines(10));
+        Object.assign(harness.bot.config.reply.longMessage, { mode: "split", maxLines: 2, maxSplits: 3 });
+        const sent = await harness.simulateMessage({ text: "long" });
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message).toHaveLength(5);
+        expect(sent[0].message.every((seg) => seg.type === "node")).toBe(true);
+    });
+
+    test("sends short messages unchanged", async () => {
+        const harness = await harnessFor("hi");
+        const sent = await harness.simulateMessage({ text: "long" });
+        expect(sent.map((s) => s.message)).toEqual([[{ type: "text", data: { text: "hi" } }]]);
+    });
+
+    test("strips mentions from forward nodes and quotes the first plain message", async () => {
+        const harness = await harnessFor((ctx) => ctx.reply.quote().at().text(lines(10)).commit());
+        Object.assign(harness.bot.config.reply.longMessage, { mode: "forward", maxLines: 2 });
+        const sent = await harness.simulateMessage({ text: "long", groupId: 1 });
+        expect(sent).toHaveLength(1);
+        expect(JSON.stringify(sent[0].message)).not.toContain('"at"');
+        expect(JSON.stringify(sent[0].message)).not.toContain('"reply"');
+    });
+
+    test("never sends a quote on its own", async () => {
+        const harness = await harnessFor((ctx) => ctx.reply.quote().forward(["a", "b"]).commit());
+        const sent = await harness.simulateMessage({ text: "long", groupId: 1 });
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message.every((seg) => seg.type === "node")).toBe(true);
+    });
+
+    test("attaches the quote to the first plain message", async () => {
+        const harness = await harnessFor((ctx) => ctx.reply.forward(["a"]).quote().text("done").commit());
+        const sent = await harness.simulateMessage({ text: "long", groupId: 1 });
+        expect(sent).toHaveLength(2);
+        expect(sent[1].message[0].type).toBe("reply");
+    });
+});
+
+describe("segment builders", () => {
+    test("quote defaults to the triggering message", async () => {
+        const harness = await harnessFor((ctx) => ctx.reply.text("hi").quote().commit());
+        const sent = await harness.simulateMessage({ text: "long", groupId: 1 });
+        expect(sent[0].message[0]).toEqual({ type: "reply", data: { id: expect.any(String) } });
+        expect(sent[0].message[1]).toEqual({ type: "text", data: { text: "hi" } });
+    });
+
+    test("builds music, contact and custom segments", async () => {
+        const harness = await harnessFor((ctx) =>
+            ctx.reply.music("163", 123).contact(456, "group").segment("mface", { id: "1" }).commit()
+        );
+        const sent = await harness.simulateMessage({ text: "long" });
+        expect<GenericSegment[]>(sent[0].message).toEqual([
+            { type: "music", data: { type: "163", id: "123" } },
+            { type: "contact", data: { type: "group", id: "456" } },
+            { type: "mface", data: { id: "1" } },
+        ]);
+    });
+
+    test("sends pokes separately from the message", async () => {
+        const harness = await harnessFor((ctx) => ctx.reply.text("hi").poke().commit());
+        const sent = await harness.simulateMessage({ text: "long", userId: 2, groupId: 1 });
+        expect(sent.map((s) => s.message)).toEqual([[{ type: "text", data: { text: "hi" } }]]);
+        expect(harness.apiCalls).toContainEqual({
+            method: "send_poke",
+            args: [{ group_id: 1, target_id: "2" }],
+        });
+    });
+});
@@ -0,0 +1,524 @@
+import type { NapLink } from "@naplink/naplink";
+import type { Bot } from "./bot";
+import type { LongMessageConfig } from "./types";
+import {
+    TextSegment,
+    AtSegment,
+    FaceSegment,
+    ReplySegment,
+    ImageSegment,
+    RecordSegment,
+    VideoSegment,
+    FileSegment,
+    JsonSegment,
+    XmlSegment,
+    MarkdownSegment,
+} from "@naplink/naplink";
+
+export type MessageSegment =
+    | TextSegment
+    | AtSegment
+    | FaceSegment
+    | ReplySegment
+    | ImageSegment
+    | RecordSegment
+    | VideoSegment
+    | FileSegment
+    | JsonSegment
+    | XmlSegment
+    | MarkdownSegment
+    | NodeSegment
+    | PokeSegment
+    | MusicSegment
+    | ContactSegment
+    | DiceSegment
+    | RpsSegment;
+
+/**
+ * reply.segment 添加的消息段，用于未内置类型的消息段，例如 NapCat 扩展的消息段
+ * 不属于 MessageSegment，以免 type 为 string 时无法按 type 区分消息段类型
+ */
+export interface GenericSegment {
+    type: string;
+    data: Record<string, any>;
+}
+
+/**
+ * 戳一戳，提交回复时通过 sendPoke 发送，不作为消息内容，同样经过出站中间件
+ */
+export interface PokeSegment {
+    type: "poke";
+    data: { qq: string };
+}
+
+export type MusicPlatform = "qq" | "163" | "kugou" | "migu" | "kuwo";
+
+/** 自定义音乐分享 */
+export interface CustomMusic {
+    /** 点击后跳转的链接 */
+    url: string;
+    /** 音频链接 */
+    audio: string;
+    title: string;
+    content?: string;
+    /** 封面图片链接 */
+    image?: string;
+}
+
+export interface MusicSegment {
+    type: "music";
+    data: { type: MusicPlatform; id: string } | ({ type: "custom" } & CustomMusic);
+}
+
+/** 推荐好友或群 */
+export interface ContactSegment {
+    type: "contact";
+    data: { type: "qq" | "group"; id: string };
+}
+
+export interface DiceSegment {
+    type: "dice";
+    data: {};
+}
+
+export interface RpsSegment {
+    type: "rps";
+    data: {};
+}
+
+/**
+ * 合并转发节点，content 为自定义消息，id 为引用已有的消息
+ */
+export interface NodeSegment {
+    type: "node";
+    data: {
+        user_id?: string;
+        nickname?: string;
+        content?: MessageSegment[];
+        id?: string;
+    };
+}
+
+/** 合并转发节点的内容，字符串按纯文本处理 */
+export type ForwardNode = NodeSegment | MessageSegment[] | string;
+
+/**
+ * 消息是否为合并转发，即全部由节点组成
+ */
+export function isForwardMessage(message: MessageSegment[]): boolean {
+    return message.length > 0 && message.every((seg) => seg.type === "node");
+}
+
+/** 不能放进合并转发节点的消息段 */
+const unforwardableTypes = ["reply", "at", "poke"];
+
+function textOf(segments: MessageSegment[]): string {
+    return segments.map((seg) => (seg.type === "text" ? seg.data.text : "")).join("");
+}
+
+function isOversized(segments: MessageSegment[], config: LongMessageConfig): boolean {
+    const text = textOf(segments);
+    return text.length > config.maxLength || text.split("\n").length > config.maxLines;
+}
+
+/**
+ * 按行拆分消息，每条不超过 maxLength 个字符与 maxLines 行，单行过长时硬切
+ */
+function splitSegments(segments: MessageSegment[], config: LongMessageConfig): MessageSegment[][] {
+    const maxLength = Math.max(1, config.maxLength);
+    const chunks: MessageSegment[][] = [];
+    let current: MessageSegment[] = [];
+    let length = 0;
+    let lines = 1;
+    const flush = () => {
+        if (current.length > 0) chunks.push(current);
+        current = [];
+        length = 0;
+        lines = 1;
+    };
+    const append = (text: string) => {
+        if (!text) return;
+        const last = current[current.length - 1];
+        if (last?.type === "text") {
+            current[current.length - 1] = { type: "text", data: { text: last.data.text + text } };
+        } else {
+            current.push({ type: "text", data: { text } });
+        }
+        length += text.length;
+    };
+
+    for (const seg of segments) {
+        if (seg.type !== "text") {
+            current.push(seg);
+            continue;
+        }
+        seg.data.text.split("\n").forEach((line, i) => {
+            if (i > 0) {
+                // 换行处超出限制时另起一条，丢弃该换行
+                if (lines >= config.maxLines || length + 1 + line.length > maxLength) {
+                    flush();
+                } else {
+                    append("\n");
+                    lines++;
+                }
+            }
+            let rest = line;
+            while (length + rest.length > maxLength) {
+                const room = maxLength - length;
+                if (room > 0) {
+                    append(rest.slice(0, room));
+                    rest = rest.slice(room);
+                }
+                flush();
+            }
+            append(rest);
+        });
+    }
+    flush();
+    return chunks;
+}
+
+/**
+ * 可回复消息的上下文基类
+ * 群聊时回复到 group_id，私聊时回复给 sender_id
+ */
+export abstract class ReplyContext {
+    public client: NapLink;
+    public sender_id: number;
+    public group_id: number;
+    public is_group: boolean;
+    public reply_message: MessageSegment[] = [];
+    public abstract bot: Bot;
+    private _isSending: boolean = false;
+    private _recallTimeout: number = -1;
+
+    constructor(client: NapLink, senderId: number, groupId: number, isGroup: boolean) {
+        this.client = client;
+        this.sender_id = senderId;
+        this.group_id = groupId;
+        this.is_group = isGroup;
+    }
+
+    /**
+     * 消息发送成功后调用，子类可覆盖以处理额外逻辑
+     */
+    protected afterSend(message_id: number) {}
+
+    /**
+     * quote() 默认引用的消息，子类可覆盖，没有可引用的消息时为 undefined
+     */
+    protected get quoteId(): number | undefined {
+        return undefined;
+    }
+
+    /**
+     * 是否按配置自动引用回复，只在群聊中生效
+     */
+    private get autoQuote(): boolean {
+        if (!this.is_group || this.quoteId === undefined) return false;
+        const config = this.bot.config.reply;
+        return config.groups[this.group_id.toString()]?.quote ?? config.quote;
+    }
+
+    private toNode(node: ForwardNode): NodeSegment {
+        if (typeof node !== "string" && !Array.isArray(node)) return node;
+        return {
+            type: "node",
+            data: {
+                user_id: this.bot.id.toString(),
+                nickname: this.bot.nickname,
+                content: typeof node === "string" ? [{ type: "text", data: { text: node } }] : node,
+            },
+        };
+    }
+
+    /**
+     * 将待发送的消息段整理为实际发送的消息
+     * 节点与普通消息段分开发送，超长的普通消息按配置拆分或折叠为合并转发
+     * 引用只加在第一条普通消息上，没有普通消息时丢弃
+     */
+    private prepareMessages(segments: MessageSegment[]): MessageSegment[][] {
+        const config = this.bot.config.reply.longMessage;
+        let quote = segments.find((seg) => seg.type === "reply");
+        if (!quote && this.autoQuote) {
+            quote = { type: "reply", data: { id: this.quoteId!.toString() } };
+        }
+
+        const runs: MessageSegment[][] = [];
+        for (const seg of segments) {
+            if (seg.type === "reply") continue;
+            const last = runs[runs.length - 1];
+            if (last && (last[0].type === "node") === (seg.type === "node")) last.push(seg);
+            else runs.push([seg]);
+        }
+
+        const messages: MessageSegment[][] = [];
+        for (const run of runs) {
+            if (isForwardMessage(run) || config.mode === "none" || !isOversized(run, config)) {
+                messages.push(run);
+                continue;
+            }
+            const chunks = splitSegments(run, config);
+            const tooMany = config.maxSplits > 0 && chunks.length > config.maxSplits;
+            if (config.mode === "forward" || tooMany) {
+                // 合并转发节点中的 @ 与戳一戳无效，去掉后为空的节点不发送
+                const nodes = chunks
+                    .map((chunk) => chunk.filter((seg) => !unforwardableTypes.includes(seg.type)))
+                    .filter((chunk) => chunk.length > 0);
+                if (nodes.length > 0) messages.push(nodes.map((chunk) => this.toNode(chunk)));
+            } else {
+                messages.push(...chunks);
+            }
+        }
+
+        const first = messages.find((message) => !isForwardMessage(message));
+        if (first && quote) first.unshift(quote);
+        return messages;
+    }
+
+    private send(message: MessageSegment[]): Promise<{ message_id: number } | undefined> {
+        if (isForwardMessage(message)) {
+            return this.is_group
+                ? this.client.sendGroupForwardMessage(this.group_id, message)
+                : this.client.sendPrivateForwardMessage({
+                      user_id: this.sender_id,
+                      messages: message,
+                  });
+        }
+        return this.is_group
+            ? this.client.sendGroupMessage(this.group_id, message)
+            : this.client.sendPrivateMessage(this.sender_id, message);
+    }
+
+    public get reply() {
+        const self = this;
+        return {
+            commit: async () => {
+                if (self.reply_message.length === 0 || self._isSending) return;
+                self._isSending = true;
+                try {
+                    const msgCopy = [...self.reply_message]; // 拷贝当前消息栈
+                    self.reply_message = []; // 立即清空，防止重发
+                    const pokes = msgCopy.filter((seg): seg is PokeSegment => seg.type === "poke");
+                    const segments = msgCopy.filter((seg) => seg.type !== "poke");
+
+                    let firstId: number | undefined;
+                    for (const message of self.prepareMessages(segments)) {
+                        // 消息被出站中间件拦截时没有返回值
+                        const messageId = (await self.send(message))?.message_id;
+                        if (!messageId) continue;
+                        firstId ??= messageId;
+                        if (self._recallTimeout > 0) {
+                            setTimeout(() => {
+                                self.client.deleteMessage(messageId);
+                            }, self._recallTimeout);
+                        }
+                    }
+                    if (firstId) {
+                        self.afterSend(firstId);
+                    }
+                    for (const poke of pokes) {
+                        await self.client.sendPoke(
+                            poke.data.qq,
+                            self.is_group ? self.group_id : undefined
+                        );
+                    }
+                } finally {
+                    self._isSending = false;
+                }
+            },
+            recall: (timeout: number) => {
+                self._recallTimeout = timeout;
+            },
+            /**
+             * 引用回复，默认引用触发的消息，引用总是放在消息开头
+             */
+            quote: (message_id: number | undefined = self.quoteId) => {
+                if (message_id === undefined) return self.reply;
+                const msg: ReplySegment = {
+                    type: "reply",
+                    data: {
+                        id: message_id.toString(),
+                    },
+                };
+                const rest = self.reply_message.filter((seg) => seg.type !== "reply");
+                self.reply_message = [msg, ...rest];
+                return self.reply;
+            },
+            text: (content: string) => {
+                const msg: TextSegment = {
+                    type: "text",
+                    data: {
+                        text: content,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            at: (user_id: number | null = null) => {
+                if (!self.is_group) {
+                    return self.reply;
+                }
+                const msg: AtSegment = {
+                    type: "at",
+                    data: {
+                        qq: user_id ? user_id.toString() : self.sender_id.toString(),
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            face: (id: number) => {
+                const msg: FaceSegment = {
+                    type: "face",
+                    data: {
+                        id: id.toString(),
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            image: (file: string, summary?: string, sub_type?: string) => {
+                const msg: ImageSegment = {
+                    type: "image",
+                    data: {
+                        file: file,
+                        summary: summary,
+                        sub_type: sub_type,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            record: (file: string) => {
+                const msg: RecordSegment = {
+                    type: "record",
+                    data: {
+                        file: file,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            video: (file: string) => {
+                const msg: VideoSegment = {
+                    type: "video",
+                    data: {
+                        file: file,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            file: (file: string, name?: string) => {
+                const msg: FileSegment = {
+                    type: "file",
+                    data: {
+                        file: file,
+                        name: name,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            json: (json: any) => {
+                const msg: JsonSegment = {
+                    type: "json",
+                    data: {
+                        data: JSON.stringify(json),
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            xml: (xml: string) => {
+                const msg: XmlSegment = {
+                    type: "xml",
+                    data: {
+                        data: xml,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            /**
+             * 戳一戳，默认戳消息发送者，群聊中在群内戳
+             */
+            poke: (user_id: number = self.sender_id) => {
+                const msg: PokeSegment = {
+                    type: "poke",
+                    data: {
+                        qq: user_id.toString(),
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            /**
+             * 音乐分享，传入平台与歌曲 ID，或自定义音乐
+             */
+            music: (platform: MusicPlatform | CustomMusic, id?: number | string) => {
+                const msg: MusicSegment = {
+                    type: "music",
+                    data:
+                        typeof platform === "string"
+                            ? { type: platform, id: String(id ?? "") }
+                            : { type: "custom", ...platform },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            /**
+             * 推荐好友或群
+             */
+            contact: (id: number, type: "qq" | "group" = "qq") => {
+                const msg: ContactSegment = {
+                    type: "contact",
+                    data: {
+                        type: type,
+                        id: id.toString(),
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            dice: () => {
+                const msg: DiceSegment = { type: "dice", data: {} };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            rps: () => {
+                const msg: RpsSegment = { type: "rps", data: {} };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+            /**
+             * 添加任意消息段，用于没有对应方法的消息类型
+             */
+            segment: (type: GenericSegment["type"], data: GenericSegment["data"] = {}) => {
+                const msg: GenericSegment = { type, data };
+                // 原样发送，内置的处理只会按已知的 type 识别消息段
+                self.reply_message.push(msg as MessageSegment);
+                return self.reply;
+            },
+            /**
+             * 添加合并转发节点，字符串与消息段数组以机器人的身份发送
+             * 节点会与其他消息段分开，作为一条合并转发消息发送
+             */
+            forward: (nodes: ForwardNode[]) => {
+                self.reply_message.push(...nodes.map((node) => self.toNode(node)));
+                return self.reply;
+            },
+            markdown: (content: string) => {
+                const msg: MarkdownSegment = {
+                    type: "markdown",
+                    data: {
+                        content: content,
+                    },
+                };
+                self.reply_message.push(msg);
+                return self.reply;
+            },
+        };
+    }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { nextCronTime, parseCron } from "./scheduler";
+import { createTestHarness } from "./testing";
+
+describe("parseCron", () => {
+    test("parses lists, ranges and steps", () => {
+        const cron = parseCron("*/15 9-11 1,15 * mon-fri");
+        expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...cron.hours]).toEqual([9, 10, 11]);
+        expect([...cron.days]).toEqual([1, 15]);
+        expect(cron.months.size).toBe(12);
+        expect([...cron.weekdays].sort()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test("expands macros and treats 7 as sunday", () => {
+        const cron = parseCron("@daily");
+        expect([...cron.minutes]).toEqual([0]);
+        expect([...cron.hours]).toEqual([0]);
+        expect([...parseCron("0 0 * * 7").weekdays]).toEqual([0]);
+    });
+
+    test("rejects invalid expressions", () => {
+        expect(() => parseCron("* * * *")).toThrow();
+        expect(() => parseCron("60 * * * *")).toThrow();
+    });
+});
+
+describe("nextCronTime", () => {
+    const from = new Date("2024-01-01T10:30:00Z"); // 周一
+
+    test("finds the next matching minute", () => {
+        expect(nextCronTime("*/15 * * * *", from, "UTC").toISOString()).toBe("2024-01-01T10:45:00.000Z");
+    });
+
+    test("skips to the next matching day", () => {
+        expect(nextCronTime("0 9 * * fri", from, "UTC").toISOString()).toBe("2024-01-05T09:00:00.000Z");
+    });
+
+    test("matches either day or weekday when both are restricted", () => {
+        expect(nextCronTime("0 0 15 * sun", from, "UTC").toISOString()).toBe("2024-01-07T00:00:00.000Z");
+    });
+
+    test("respects the timezone", () => {
+        expect(nextCronTime("0 9 * * *", from, "Asia/Shanghai").toISOString()).toBe(
+            "2024-01-02T01:00:00.000Z"
+        );
+    });
+});
+
+describe("Scheduler", () => {
+    test("runs delayed jobs once and drops them", async () => {
+        const harness = await createTestHarness();
+        const runs: number[] = [];
+        harness.bot.scheduler.delay("test", 10, () => {
+            runs.push(Date.now());
+        });
+        expect(harness.bot.scheduler.list("test")).toHaveLength(1);
+        await harness.wait(30);
+        expect(runs).toHaveLength(1);
+        expect(harness.bot.scheduler.list("test")).toHaveLength(0);
+    });
+
+    test("cancelled jobs never run", async () => {
+        const harness = await createTestHarness();
+        let ran = false;
+        const job = harness.bot.scheduler.delay("test", 10, () => {
+            ran = true;
+        });
+        expect(harness.bot.scheduler.cancel(job.id)).toBe(true);
+        expect(harness.bot.scheduler.cancel(job.id)).toBe(false);
+        await harness.wait(30);
+        expect(ran).toBe(false);
+    });
+});
+
+describe("Scheduler with disabled plugins", () => {
+    test("postpones one-shot jobs instead of dropping them", async () => {
+        const harness = await createTestHarness();
+        harness.bot.config.permission.disabledPlugins.push("test");
+        let ran = false;
+        const job = harness.bot.scheduler.delay("test", 10, () => {
+            ran = true;
+        });
+        await harness.wait(30);
+        expect(ran).toBe(false);
+        const [postponed] = harness.bot.scheduler.list("test");
+        expect(postponed.id).toBe(job.id);
+        expect(postponed.nextRun.getTime()).toBeGreaterThan(Date.now());
+        harness.bot.scheduler.cancel(job.id);
+    });
+});
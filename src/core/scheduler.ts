@@ -0,0 +1,426 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Bot } from "./bot";
+import { Plugin, ScheduleSpec } from "./types";
+import { dataFile } from "./utils";
+import { Logger, withScope } from "./logger";
+
+interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    /** 日与星期是否都有限制，都有限制时满足其一即可 */
+    dayRestricted: boolean;
+    weekdayRestricted: boolean;
+}
+
+const cronMacros: Record<string, string> = {
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+    "@monthly": "0 0 1 * *",
+    "@weekly": "0 0 * * 0",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@hourly": "0 * * * *",
+};
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const weekdayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function parseCronValue(value: string, names?: string[], offset: number = 0): number {
+    const index = names?.indexOf(value.toLowerCase()) ?? -1;
+    if (index >= 0) return index + offset;
+    const n = Number(value);
+    if (!Number.isInteger(n)) throw new Error(`Invalid cron value: ${value}`);
+    return n;
+}
+
+function parseCronField(
+    field: string,
+    min: number,
+    max: number,
+    names?: string[],
+    offset?: number
+): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(",")) {
+        const [range, stepText] = part.split("/");
+        const step = stepText ? Number(stepText) : 1;
+        if (!Number.isInteger(step) || step <= 0) throw new Error(`Invalid cron step: ${part}`);
+
+        let start = min;
+        let end = max;
+        if (range !== "*") {
+            const [from, to] = range.split("-");
+            start = parseCronValue(from, names, offset);
+            end = to !== undefined ? parseCronValue(to, names, offset) : stepText ? max : start;
+        }
+        if (start < min || end > max || start > end) {
+            throw new Error(`Cron value out of range: ${part}`);
+        }
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+    return values;
+}
+
+/**
+ * 解析 5 段 cron 表达式：分 时 日 月 星期
+ * 支持 * , - / 、月份与星期的英文缩写，以及 @daily 等宏
+ */
+export function parseCron(expression: string): CronFields {
+    const expr = cronMacros[expression.trim()] ?? expression.trim();
+    const parts = expr.split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+    const [minute, hour, day, month, weekday] = parts;
+    const weekdays = parseCronField(weekday, 0, 7, weekdayNames);
+    // 7 与 0 都表示周日
+    if (weekdays.has(7)) {
+        weekdays.delete(7);
+        weekdays.add(0);
+    }
+    return {
+        minutes: parseCronField(minute, 0, 59),
+        hours: parseCronField(hour, 0, 23),
+        days: parseCronField(day, 1, 31),
+        months: parseCronField(month, 1, 12, monthNames, 1),
+        weekdays,
+        dayRestricted: day !== "*",
+        weekdayRestricted: weekday !== "*",
+    };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * 获取时间在指定时区下的各个字段
+ */
+function zonedParts(time: number, timezone?: string) {
+    const key = timezone ?? "";
+    let formatter = formatters.get(key);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            hourCycle: "h23",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            weekday: "short",
+        });
+        formatters.set(key, formatter);
+    }
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(new Date(time))) {
+        parts[part.type] = part.value;
+    }
+    return {
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        weekday: weekdayNames.indexOf(parts.weekday.toLowerCase()),
+    };
+}
+
+/**
+ * 计算 cron 表达式在 from 之后的下一次触发时间
+ */
+export function nextCronTime(expression: string, from: Date = new Date(), timezone?: string): Date {
+    const cron = parseCron(expression);
+    let time = Math.floor(from.getTime() / 60000) * 60000 + 60000;
+
+    // 按 天 -> 小时 -> 分钟 逐级跳过，最多检查约 5 年
+    for (let i = 0; i < 200000; i++) {
+        const p = zonedParts(time, timezone);
+        const dayMatch = cron.days.has(p.day);
+        const weekdayMatch = cron.weekdays.has(p.weekday);
+        const dateMatch =
+            cron.dayRestricted && cron.weekdayRestricted
+                ? dayMatch || weekdayMatch
+                : dayMatch && weekdayMatch;
+
+        if (!cron.months.has(p.month) || !dateMatch) {
+            time += ((23 - p.hour) * 60 + (60 - p.minute)) * 60000;
+        } else if (!cron.hours.has(p.hour)) {
+            time += (60 - p.minute) * 60000;
+        } else if (!cron.minutes.has(p.minute)) {
+            time += 60000;
+        } else {
+            return new Date(time);
+        }
+    }
+    throw new Error(`Cron expression "${expression}" never matches`);
+}
+
+// setTimeout 的最大延时约 24.8 天，更长的延时需要分段等待
+const maxTimeout = 2 ** 31 - 1;
+// 插件被禁用时，一次性任务每隔一分钟检查一次是否已重新启用
+const disabledRetryDelay = 60 * 1000;
+
+export interface Job {
+    id: string;
+    /** 所属插件名 */
+    owner: string;
+    name: string;
+    type: "cron" | "once";
+    cron?: string;
+    timezone?: string;
+    /** 下一次执行时间 */
+    nextRun: Date;
+    /** 是否持久化，持久化的一次性任务在重启后恢复 */
+    persistent: boolean;
+}
+
+interface ActiveJob extends Job {
+    handler: (bot: Bot, payload?: any) => void | Promise<void>;
+    payload?: any;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface StoredJob {
+    id: string;
+    owner: string;
+    name: string;
+    runAt: number;
+    payload?: any;
+}
+
+/**
+ * 任务调度器
+ *
+ * - 插件的 schedules 在注册时启动，卸载时取消
+ * - once() 创建的一次性任务保存在 DATA_DIR/scheduler.json，重启后在插件注册时恢复
+ */
+export class Scheduler {
+    private bot: Bot;
+    private logger: Logger;
+    private jobs: Map<string, ActiveJob> = new Map();
+    // pluginName -> scheduleName -> spec
+    private specs: Map<string, Map<string, ScheduleSpec>> = new Map();
+    private stored: StoredJob[] | null = null;
+    private counter: number = 0;
+
+    constructor(bot: Bot) {
+        this.bot = bot;
+        this.logger = withScope("Scheduler");
+    }
+
+    private get storePath(): string {
+        return dataFile("scheduler.json");
+    }
+
+    private loadStore(): StoredJob[] {
+        if (this.stored) return this.stored;
+        try {
+            this.stored = fs.existsSync(this.storePath)
+                ? JSON.parse(fs.readFileSync(this.storePath, "utf-8"))
+                : [];
+        } catch (err) {
+            this.logger.error(`Failed to load ${this.storePath}:`, err);
+            this.stored = [];
+        }
+        return this.stored!;
+    }
+
+    private saveStore() {
+        try {
+            fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+            // 先写临时文件再重命名，避免写入中断导致文件损坏
+            const tmp = `${this.storePath}.tmp`;
+            fs.writeFileSync(tmp, JSON.stringify(this.loadStore(), null, 4));
+            fs.renameSync(tmp, this.storePath);
+        } catch (err) {
+            this.logger.error(`Failed to save ${this.storePath}:`, err);
+        }
+    }
+
+    private nextId(): string {
+        return `${Date.now().toString(36)}-${(this.counter++).toString(36)}`;
+    }
+
+    private arm(job: ActiveJob) {
+        const delay = job.nextRun.getTime() - Date.now();
+        if (delay > maxTimeout) {
+            job.timer = setTimeout(() => this.arm(job), maxTimeout);
+            return;
+        }
+        job.timer = setTimeout(() => this.run(job), Math.max(0, delay));
+    }
+
+    private async run(job: ActiveJob) {
+        job.timer = null;
+        const enabled = this.bot.permission.isPluginEnabled(job.owner);
+        if (job.type === "cron") {
+            // 先安排下一次，避免处理器耗时影响周期；插件被禁用时跳过本次执行
+            job.nextRun = nextCronTime(job.cron!, new Date(), job.timezone);
+            this.arm(job);
+            if (!enabled) return;
+        } else if (!enabled) {
+            // 插件被禁用时推迟一次性任务，直到插件重新启用，持久化的任务仍保留在存储中
+            this.logger.info(`Postponed job ${job.owner}/${job.name}: plugin is disabled`);
+            job.nextRun = new Date(Date.now() + disabledRetryDelay);
+            this.arm(job);
+            return;
+        } else {
+            this.jobs.delete(job.id);
+        }
+        try {
+            await job.handler(this.bot, job.payload);
+        } catch (err) {
+            this.logger.error(`Job ${job.owner}/${job.name} failed:`, err);
+        }
+        // 执行完才从存储中删除，执行中途退出的任务会在重启后重新执行
+        if (job.persistent) {
+            this.stored = this.loadStore().filter((s) => s.id !== job.id);
+            this.saveStore();
+        }
+    }
+
+    private add(job: Omit<ActiveJob, "timer">): Job {
+        const active: ActiveJob = { ...job, timer: null };
+        this.jobs.set(active.id, active);
+        this.arm(active);
+        return this.describe(active);
+    }
+
+    private describe(job: ActiveJob): Job {
+        const { handler, payload, timer, ...info } = job;
+        return info;
+    }
+
+    /**
+     * 添加周期任务
+     * @example bot.scheduler.cron("daily", "0 9 * * *", (bot) => ..., { timezone: "Asia/Shanghai" })
+     */
+    public cron(
+        owner: string,
+        expression: string,
+        handler: ActiveJob["handler"],
+        options: { name?: string; timezone?: string } = {}
+    ): Job {
+        return this.add({
+            id: this.nextId(),
+            owner,
+            name: options.name ?? expression,
+            type: "cron",
+            cron: expression,
+            timezone: options.timezone,
+            nextRun: nextCronTime(expression, new Date(), options.timezone),
+            persistent: false,
+            handler,
+        });
+    }
+
+    /**
+     * 添加延时执行一次的任务，不会持久化
+     */
+    public delay(owner: string, ms: number, handler: ActiveJob["handler"], name?: string): Job {
+        return this.add({
+            id: this.nextId(),
+            owner,
+            name: name ?? "delay",
+            type: "once",
+            nextRun: new Date(Date.now() + ms),
+            persistent: false,
+            handler,
+        });
+    }
+
+    /**
+     * 添加持久化的一次性任务，到期时调用插件 schedules 中同名的处理器
+     * @param at 执行时间，数字表示从现在起的毫秒数
+     * @param payload 传给处理器的数据，需可被 JSON 序列化
+     */
+    public once(owner: string, name: string, at: Date | number, payload?: any): Job {
+        const spec = this.specs.get(owner)?.get(name);
+        if (!spec) {
+            throw new Error(`Schedule "${name}" is not defined by plugin ${owner}`);
+        }
+        const runAt = typeof at === "number" ? Date.now() + at : at.getTime();
+        const stored: StoredJob = { id: this.nextId(), owner, name, runAt, payload };
+        this.loadStore().push(stored);
+        this.saveStore();
+        return this.restore(stored, spec);
+    }
+
+    private restore(stored: StoredJob, spec: ScheduleSpec): Job {
+        return this.add({
+            id: stored.id,
+            owner: stored.owner,
+            name: stored.name,
+            type: "once",
+            nextRun: new Date(stored.runAt),
+            persistent: true,
+            handler: spec.handler,
+            payload: stored.payload,
+        });
+    }
+
+    /**
+     * 取消任务，持久化的任务会同时从存储中删除
+     */
+    public cancel(id: string): boolean {
+        const job = this.jobs.get(id);
+        if (!job) return false;
+        if (job.timer) clearTimeout(job.timer);
+        this.jobs.delete(id);
+        if (job.persistent) {
+            this.stored = this.loadStore().filter((s) => s.id !== id);
+            this.saveStore();
+        }
+        return true;
+    }
+
+    public list(owner?: string): Job[] {
+        return [...this.jobs.values()]
+            .filter((job) => !owner || job.owner === owner)
+            .map((job) => this.describe(job));
+    }
+
+    /**
+     * 启动插件的 schedules，并恢复该插件持久化的一次性任务
+     */
+    public registerPlugin(plugin: Plugin) {
+        const owner = plugin.meta.name;
+        const specs = new Map<string, ScheduleSpec>();
+        for (const spec of plugin.schedules ?? []) {
+            specs.set(spec.name, spec);
+            if (!spec.cron) continue;
+            try {
+                this.cron(owner, spec.cron, spec.handler, {
+                    name: spec.name,
+                    timezone: spec.timezone,
+                });
+            } catch (err) {
+                this.logger.error(`Invalid schedule ${owner}/${spec.name}:`, err);
+            }
+        }
+        this.specs.set(owner, specs);
+
+        for (const stored of this.loadStore()) {
+            if (stored.owner !== owner || this.jobs.has(stored.id)) continue;
+            const spec = specs.get(stored.name);
+            if (spec) {
+                this.restore(stored, spec);
+            } else {
+                this.logger.warn(`Schedule "${stored.name}" not found in plugin ${owner}`);
+            }
+        }
+    }
+
+    /**
+     * 停止插件的所有任务，持久化的一次性任务保留在存储中，插件重新加载后恢复
+     */
+    public unregisterPlugin(pluginName: string) {
+        for (const job of [...this.jobs.values()]) {
+            if (job.owner !== pluginName) continue;
+            if (job.timer) clearTimeout(job.timer);
+            this.jobs.delete(job.id);
+        }
+        this.specs.delete(pluginName);
+    }
+}
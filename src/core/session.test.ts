@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import type { Context } from "./bot";
+import { SessionAbortError } from "./session";
+import { createTestHarness } from "./testing";
+import { createCommand } from "./types";
+import { definePlugin } from "./utils";
+
+const ask = definePlugin({
+    meta: { name: "ask", version: "1.0.0" },
+    commands: [
+        createCommand({
+            name: "age",
+            description: "询问年龄",
+            handler: async (ctx) => {
+                const age = await ctx.prompt("你几岁了？", {
+                    schema: z.coerce.number().int(),
+                    timeoutMs: 200,
+                    retries: 1,
+                });
+                await ctx.reply.text(`${age} 岁`).commit();
+            },
+        }),
+    ],
+});
+
+const ctxOf = (userId: number, groupId: number = 0) =>
+    ({ sender_id: userId, group_id: groupId }) as Context;
+
+describe("ctx.prompt", () => {
+    test("returns the validated answer", async () => {
+        const harness = await createTestHarness({ plugins: [ask] });
+        await harness.simulateMessage({ text: "age" });
+        await harness.simulateMessage({ text: "18" });
+        harness.expectReply("18 岁");
+    });
+
+    test("times out", async () => {
+        const harness = await createTestHarness({ plugins: [ask] });
+        await harness.simulateMessage({ text: "age" });
+        await harness.wait(250);
+        await harness.settle();
+        harness.expectReply("等待超时，已取消");
+    });
+
+    test("cancels on a cancel keyword", async () => {
+        const harness = await createTestHarness({ plugins: [ask] });
+        await harness.simulateMessage({ text: "age" });
+        await harness.simulateMessage({ text: "取消" });
+        harness.expectReply("已取消");
+    });
+
+    test("gives up after too many invalid answers", async () => {
+        const harness = await createTestHarness({ plugins: [ask] });
+        await harness.simulateMessage({ text: "age" });
+        await harness.simulateMessage({ text: "abc" });
+        harness.expectReply("输入无效");
+        await harness.simulateMessage({ text: "abc" });
+        harness.expectReply("输入无效次数过多，已取消");
+    });
+
+    test("keeps separate sessions per user and group", async () => {
+        const harness = await createTestHarness({ plugins: [ask] });
+        await harness.simulateMessage({ text: "age", userId: 1, groupId: 3 });
+        await harness.simulateMessage({ text: "age", userId: 1 });
+        await harness.simulateMessage({ text: "20", userId: 1 });
+        harness.expectReply("20 岁");
+        await harness.simulateMessage({ text: "30", userId: 1, groupId: 3 });
+        harness.expectReply("30 岁");
+    });
+});
+
+describe("SessionManager", () => {
+    test("cancel rejects the waiter with SessionAbortError", async () => {
+        const harness = await createTestHarness();
+        const sessions = harness.bot.sessions;
+        const ctx = ctxOf(1);
+        const answer = sessions.wait(ctx, 1000);
+        expect(sessions.isWaiting(ctx)).toBe(true);
+        sessions.cancel(ctx);
+        const error = await answer.catch((e) => e);
+        expect(error).toBeInstanceOf(SessionAbortError);
+        expect(error.reason).toBe("cancel");
+        expect(sessions.isWaiting(ctx)).toBe(false);
+    });
+
+    test("a replaced waiter's timer does not remove the new waiter", async () => {
+        const harness = await createTestHarness();
+        const sessions = harness.bot.sessions;
+        const ctx = ctxOf(1);
+        const first = sessions.wait(ctx, 10).catch((e) => e);
+        const second = sessions.wait(ctx, 1000);
+        expect((await first).reason).toBe("cancel");
+
+        await harness.wait(30);
+        expect(sessions.isWaiting(ctx)).toBe(true);
+        const answer = ctxOf(1);
+        expect(sessions.dispatch(answer)).toBe(true);
+        expect(await second).toBe(answer);
+    });
+
+    test("times out with a timeout reason", async () => {
+        const harness = await createTestHarness();
+        const error = await harness.bot.sessions.wait(ctxOf(1), 10).catch((e) => e);
+        expect(error).toBeInstanceOf(SessionAbortError);
+        expect(error.reason).toBe("timeout");
+        expect(harness.bot.sessions.isWaiting(ctxOf(1))).toBe(false);
+    });
+});
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import type { Bot, Context } from "./bot";
+
+export type SessionAbortReason = "cancel" | "timeout" | "retry";
+
+/**
+ * 会话被取消、超时或重试次数用尽时抛出
+ * 命令处理器中未捕获时，Bot 会回复 message 并结束命令
+ */
+export class SessionAbortError extends Error {
+    public reason: SessionAbortReason;
+
+    constructor(reason: SessionAbortReason, message: string) {
+        super(message);
+        this.name = "SessionAbortError";
+        this.reason = reason;
+    }
+}
+
+export interface PromptOptions<T extends z.ZodType<any> | undefined = undefined> {
+    /** 校验回答的 schema，输入为回答的文本 */
+    schema?: T;
+    /** 等待超时，默认使用全局配置 */
+    timeoutMs?: number;
+    /** 回答无效时的最大重试次数，默认使用全局配置 */
+    retries?: number;
+}
+
+export type PromptResult<T> = T extends z.ZodType<any> ? z.infer<T> : string;
+
+interface Waiter {
+    resolve: (ctx: Context) => void;
+    reject: (err: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 提取消息中的纯文本
+ */
+function messageText(ctx: Context): string {
+    return ctx.message
+        .map((seg) => (seg.type === "text" ? seg.data.text : ""))
+        .join("")
+        .trim();
+}
+
+/**
+ * 会话管理，保存等待用户下一条消息的请求
+ * 会话以 群号 + 用户 区分，私聊时群号为 0
+ */
+export class SessionManager {
+    private bot: Bot;
+    private waiters: Map<string, Waiter> = new Map();
+
+    constructor(bot: Bot) {
+        this.bot = bot;
+    }
+
+    public static key(ctx: Context): string {
+        return `${ctx.group_id}:${ctx.sender_id}`;
+    }
+
+    public isWaiting(ctx: Context): boolean {
+        return this.waiters.has(SessionManager.key(ctx));
+    }
+
+    /**
+     * 等待同一用户在同一会话中的下一条消息
+     */
+    public wait(ctx: Context, timeoutMs?: number): Promise<Context> {
+        const key = SessionManager.key(ctx);
+        const config = this.bot.config.session;
+        // 同一会话只保留最新的等待
+        const old = this.waiters.get(key);
+        if (old) {
+            clearTimeout(old.timer);
+            this.waiters.delete(key);
+            old.reject(new SessionAbortError("cancel", config.messages.cancel));
+        }
+
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    // 只移除自己，避免误删之后替换的等待
+                    if (this.waiters.get(key) === waiter) this.waiters.delete(key);
+                    reject(new SessionAbortError("timeout", config.messages.timeout));
+                }, timeoutMs ?? config.timeoutMs),
+            };
+            this.waiters.set(key, waiter);
+        });
+    }
+
+    /**
+     * 将消息交给等待中的会话，返回是否已被会话接收
+     */
+    public dispatch(ctx: Context): boolean {
+        const key = SessionManager.key(ctx);
+        const waiter = this.waiters.get(key);
+        if (!waiter) return false;
+        clearTimeout(waiter.timer);
+        this.waiters.delete(key);
+        waiter.resolve(ctx);
+        return true;
+    }
+
+    /**
+     * 取消会话中的等待
+     */
+    public cancel(ctx: Context) {
+        const key = SessionManager.key(ctx);
+        const waiter = this.waiters.get(key);
+        if (!waiter) return;
+        clearTimeout(waiter.timer);
+        this.waiters.delete(key);
+        waiter.reject(new SessionAbortError("cancel", this.bot.config.session.messages.cancel));
+    }
+
+    /**
+     * 发送提示并等待回答，回答无效时重新询问，收到取消关键词时抛出 SessionAbortError
+     */
+    public async prompt<T extends z.ZodType<any> | undefined = undefined>(
+        ctx: Context,
+        text: string,
+        options: PromptOptions<T> = {}
+    ): Promise<PromptResult<T>> {
+        const config = this.bot.config.session;
+        const retries = options.retries ?? config.retries;
+
+        await ctx.reply.text(text).commit();
+        for (let attempt = 0; ; attempt++) {
+            const answer = await this.wait(ctx, options.timeoutMs);
+            const content = messageText(answer);
+            if (config.cancelKeywords.includes(content)) {
+                throw new SessionAbortError("cancel", config.messages.cancel);
+            }
+            if (!options.schema) return content as PromptResult<T>;
+
+            const result = options.schema.safeParse(content);
+            if (result.success) return result.data;
+            if (attempt >= retries) {
+                throw new SessionAbortError("retry", config.messages.retry);
+            }
+            const error = result.error.issues.map((issue) => issue.message).join("；");
+            await ctx.reply.text(config.messages.invalid.replace("{error}", error)).commit();
+        }
+    }
+}
+
+/**
+ * 绑定到某个上下文的会话
+ */
+export class Session {
+    private manager: SessionManager;
+    private ctx: Context;
+
+    constructor(manager: SessionManager, ctx: Context) {
+        this.manager = manager;
+        this.ctx = ctx;
+    }
+
+    /** 是否正在等待用户回复 */
+    public get waiting(): boolean {
+        return this.manager.isWaiting(this.ctx);
+    }
+
+    /**
+     * 等待用户的下一条消息
+     */
+    public next(timeoutMs?: number): Promise<Context> {
+        return this.manager.wait(this.ctx, timeoutMs);
+    }
+
+    public prompt<T extends z.ZodType<any> | undefined = undefined>(
+        text: string,
+        options?: PromptOptions<T>
+    ): Promise<PromptResult<T>> {
+        return this.manager.prompt(this.ctx, text, options);
+    }
+
+    public cancel() {
+        this.manager.cancel(this.ctx);
+    }
+}
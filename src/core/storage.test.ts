@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Storage } from "./storage";
+import { createTestHarness } from "./testing";
+
+describe("Storage", () => {
+    test("expires values after their ttl", async () => {
+        const storage = new Storage(":memory:");
+        const ns = storage.namespace("plugin");
+        ns.set("short", 1, { ttl: 10 });
+        ns.set("long", 2);
+        expect(ns.get<number>("short")).toBe(1);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(ns.get("short")).toBeUndefined();
+        expect(ns.has("short")).toBe(false);
+        expect(ns.keys()).toEqual(["long"]);
+    });
+
+    test("isolates user and group sub-namespaces", () => {
+        const ns = new Storage(":memory:").namespace("plugin");
+        ns.set("key", "plugin");
+        ns.user(1).set("key", "user");
+        ns.group(1).set("key", "group");
+        expect(ns.get<string>("key")).toBe("plugin");
+        expect(ns.user(1).get<string>("key")).toBe("user");
+        expect(ns.user(2).get("key")).toBeUndefined();
+        expect(ns.group(1).get<string>("key")).toBe("group");
+        expect(ns.keys()).toEqual(["key"]);
+
+        ns.clear();
+        expect(ns.get("key")).toBeUndefined();
+        expect(ns.user(1).get("key")).toBeUndefined();
+        expect(ns.group(1).get("key")).toBeUndefined();
+    });
+
+    test("clear does not treat namespaces as LIKE patterns", () => {
+        const storage = new Storage(":memory:");
+        storage.namespace("a_b").user(1).set("key", 1);
+        storage.namespace("axb").user(1).set("key", 2);
+        storage.namespace("a%").set("key", 3);
+        storage.namespace("a%b").set("key", 4);
+
+        storage.namespace("a_b").clear();
+        storage.namespace("a%").clear();
+        expect(storage.namespace("a_b").user(1).get("key")).toBeUndefined();
+        expect(storage.namespace("axb").user(1).get<number>("key")).toBe(2);
+        expect(storage.namespace("a%").get("key")).toBeUndefined();
+        expect(storage.namespace("a%b").get<number>("key")).toBe(4);
+    });
+
+    test("lists keys by prefix", () => {
+        const ns = new Storage(":memory:").namespace("plugin");
+        ns.set("a:1", 1);
+        ns.set("a:2", 2);
+        ns.set("b:1", 3);
+        expect(ns.list("a:").map((entry) => entry.value)).toEqual([1, 2]);
+    });
+
+    test("round-trips export and import", () => {
+        const storage = new Storage(":memory:");
+        storage.namespace("plugin").set("config", { nested: [1, "two"] });
+        storage.namespace("plugin").user(1).set("score", 10, { ttl: 60000 });
+        storage.namespace("other").set("key", true);
+
+        const backup = storage.export("plugin");
+        expect(Object.keys(backup)).toEqual(["plugin", "plugin:user:1"]);
+
+        const restored = new Storage(":memory:");
+        expect(restored.import(backup)).toBe(2);
+        expect(restored.export()).toEqual(backup);
+        expect(restored.namespace("other").get("key")).toBeUndefined();
+    });
+});
+
+describe("storage import command", () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "paowa-storage-"));
+    const backupDir = path.join(dataDir, "backup");
+    const previous = process.env.DATA_DIR;
+
+    beforeAll(() => {
+        // dataFile 以当前目录为基准
+        process.env.DATA_DIR = path.relative(process.cwd(), dataDir);
+        fs.mkdirSync(backupDir, { recursive: true });
+    });
+
+    afterAll(() => {
+        if (previous === undefined) delete process.env.DATA_DIR;
+        else process.env.DATA_DIR = previous;
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    async function importFile(name: string, content?: unknown) {
+        if (content !== undefined) {
+            fs.writeFileSync(path.join(backupDir, path.basename(name)), JSON.stringify(content));
+        }
+        const harness = await createTestHarness();
+        harness.bot.config.permission.superusers.push(1);
+        await harness.simulateMessage({ text: `storage import ${name}`, userId: 1 });
+        return harness;
+    }
+
+    test("imports a valid backup", async () => {
+        const harness = await importFile("valid.json", {
+            plugin: [{ key: "a", value: { b: 1 }, expiresAt: null }],
+        });
+        harness.expectReply("已导入 1 条数据");
+        expect(harness.bot.storage.namespace("plugin").get<object>("a")).toEqual({ b: 1 });
+    });
+
+    test("rejects backups with the wrong shape", async () => {
+        const harness = await importFile("invalid.json", { plugin: [{ key: 1 }] });
+        harness.expectReply("备份文件格式错误");
+        expect(harness.bot.storage.export()).toEqual({});
+    });
+
+    test("only reads files inside the backup directory", async () => {
+        fs.writeFileSync(path.join(dataDir, "outside.json"), JSON.stringify({}));
+        const harness = await importFile("../outside.json");
+        harness.expectReply("备份文件不存在");
+    });
+});
@@ -0,0 +1,343 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Database } from "bun:sqlite";
+import { z } from "zod";
+import type { Bot } from "./bot";
+import { Plugin, createCommand } from "./types";
+import { dataFile } from "./utils";
+
+export interface StorageSetOptions {
+    /** 过期时间（毫秒），过期后读取不到该值 */
+    ttl?: number;
+}
+
+export interface StorageEntry<T = any> {
+    key: string;
+    value: T;
+    /** 过期时间戳（毫秒），永不过期时为 null */
+    expiresAt: number | null;
+}
+
+/** 导出的备份格式：命名空间 -> 条目列表 */
+export type StorageBackup = Record<string, StorageEntry[]>;
+
+/** 导入前校验备份文件 */
+const storageBackupSchema = z.record(
+    z.string(),
+    z.array(
+        z.object({
+            key: z.string(),
+            value: z.json(),
+            expiresAt: z.number().nullable(),
+        })
+    )
+);
+
+interface Row {
+    namespace: string;
+    key: string;
+    value: string;
+    expires_at: number | null;
+}
+
+/**
+ * 基于 bun:sqlite 的键值存储，所有插件共用 DATA_DIR/storage.db，按命名空间隔离
+ * 每次写入都是单条 SQL 语句，导入在事务中进行，保证写入的原子性
+ */
+export class Storage {
+    private file: string;
+    private _db: Database | null = null;
+
+    constructor(file: string = dataFile("storage.db")) {
+        this.file = file;
+    }
+
+    /** 首次使用时才打开数据库 */
+    private get db(): Database {
+        if (!this._db) {
+            fs.mkdirSync(path.dirname(this.file), { recursive: true });
+            this._db = new Database(this.file, { create: true });
+            this._db.exec("PRAGMA journal_mode = WAL");
+            this._db.exec(
+                `CREATE TABLE IF NOT EXISTS kv (
+                    namespace TEXT NOT NULL,
+                    key TEXT NOT NULL,
+                    value TEXT NOT NULL,
+                    expires_at INTEGER,
+                    PRIMARY KEY (namespace, key)
+                )`
+            );
+        }
+        return this._db;
+    }
+
+    public namespace(name: string): StorageNamespace {
+        return new StorageNamespace(this, name);
+    }
+
+    /** 删除已过期的条目 */
+    public purge(namespace?: string) {
+        if (namespace === undefined) {
+            this.db.run("DELETE FROM kv WHERE expires_at IS NOT NULL AND expires_at <= ?", [
+                Date.now(),
+            ]);
+        } else {
+            this.db.run(
+                "DELETE FROM kv WHERE namespace = ? AND expires_at IS NOT NULL AND expires_at <= ?",
+                [namespace, Date.now()]
+            );
+        }
+    }
+
+    public get<T>(namespace: string, key: string): T | undefined {
+        const row = this.db
+            .query<Row, [string, string]>("SELECT * FROM kv WHERE namespace = ? AND key = ?")
+            .get(namespace, key);
+        if (!row) return undefined;
+        if (row.expires_at !== null && row.expires_at <= Date.now()) {
+            this.delete(namespace, key);
+            return undefined;
+        }
+        return JSON.parse(row.value);
+    }
+
+    public set(namespace: string, key: string, value: any, options: StorageSetOptions = {}) {
+        if (value === undefined) {
+            this.delete(namespace, key);
+            return;
+        }
+        const expiresAt = options.ttl !== undefined ? Date.now() + options.ttl : null;
+        this.db.run(
+            "INSERT OR REPLACE INTO kv (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)",
+            [namespace, key, JSON.stringify(value), expiresAt]
+        );
+    }
+
+    public delete(namespace: string, key: string): boolean {
+        return (
+            this.db.run("DELETE FROM kv WHERE namespace = ? AND key = ?", [namespace, key])
+                .changes > 0
+        );
+    }
+
+    /**
+     * 列出命名空间中的条目，可按键前缀过滤
+     */
+    public list(namespace: string, prefix: string = ""): StorageEntry[] {
+        this.purge(namespace);
+        const rows = this.db
+            .query<Row, [string, string]>(
+                "SELECT * FROM kv WHERE namespace = ?1 AND substr(key, 1, length(?2)) = ?2 ORDER BY key"
+            )
+            .all(namespace, prefix);
+        return rows.map((row) => ({
+            key: row.key,
+            value: JSON.parse(row.value),
+            expiresAt: row.expires_at,
+        }));
+    }
+
+    /**
+     * 清空命名空间，includeChildren 为 true 时同时清空 user / group 子命名空间
+     */
+    public clear(namespace: string, includeChildren: boolean = false) {
+        if (includeChildren) {
+            this.db.run("DELETE FROM kv WHERE namespace = ? OR namespace LIKE ? ESCAPE '\\'", [
+                namespace,
+                escapeLike(namespace) + ":%",
+            ]);
+        } else {
+            this.db.run("DELETE FROM kv WHERE namespace = ?", [namespace]);
+        }
+    }
+
+    /**
+     * 导出数据，指定 namespace 时只导出该命名空间及其子命名空间
+     */
+    public export(namespace?: string): StorageBackup {
+        this.purge();
+        const rows =
+            namespace === undefined
+                ? this.db.query<Row, []>("SELECT * FROM kv ORDER BY namespace, key").all()
+                : this.db
+                      .query<Row, [string, string]>(
+                          "SELECT * FROM kv WHERE namespace = ? OR namespace LIKE ? ESCAPE '\\' ORDER BY namespace, key"
+                      )
+                      .all(namespace, escapeLike(namespace) + ":%");
+        const backup: StorageBackup = {};
+        for (const row of rows) {
+            (backup[row.namespace] ??= []).push({
+                key: row.key,
+                value: JSON.parse(row.value),
+                expiresAt: row.expires_at,
+            });
+        }
+        return backup;
+    }
+
+    /**
+     * 导入备份，已存在的键会被覆盖，整体在一个事务中完成
+     * @returns 导入的条目数
+     */
+    public import(backup: StorageBackup): number {
+        const insert = this.db.prepare(
+            "INSERT OR REPLACE INTO kv (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)"
+        );
+        const run = this.db.transaction((backup: StorageBackup) => {
+            let count = 0;
+            for (const [namespace, entries] of Object.entries(backup)) {
+                for (const entry of entries) {
+                    insert.run(namespace, entry.key, JSON.stringify(entry.value), entry.expiresAt ?? null);
+                    count++;
+                }
+            }
+            return count;
+        });
+        return run(backup);
+    }
+
+    public close() {
+        this._db?.close();
+        this._db = null;
+    }
+}
+
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, (c) => "\\" + c);
+}
+
+/**
+ * 命名空间视图，插件通过 plugin.storage 使用
+ *
+ * @example
+ * plugin.storage.set("count", 1);
+ * plugin.storage.user(ctx.sender_id).set("sign", Date.now(), { ttl: 86400_000 });
+ */
+export class StorageNamespace {
+    private storage: Storage;
+    public readonly name: string;
+
+    constructor(storage: Storage, name: string) {
+        this.storage = storage;
+        this.name = name;
+    }
+
+    public get<T = any>(key: string): T | undefined;
+    public get<T = any>(key: string, defaultValue: T): T;
+    public get<T = any>(key: string, defaultValue?: T): T | undefined {
+        return this.storage.get<T>(this.name, key) ?? defaultValue;
+    }
+
+    public set<T = any>(key: string, value: T, options?: StorageSetOptions) {
+        this.storage.set(this.name, key, value, options);
+    }
+
+    public has(key: string): boolean {
+        return this.storage.get(this.name, key) !== undefined;
+    }
+
+    public delete(key: string): boolean {
+        return this.storage.delete(this.name, key);
+    }
+
+    public list<T = any>(prefix?: string): StorageEntry<T>[] {
+        return this.storage.list(this.name, prefix);
+    }
+
+    public keys(prefix?: string): string[] {
+        return this.list(prefix).map((entry) => entry.key);
+    }
+
+    /** 清空当前命名空间及其子命名空间 */
+    public clear() {
+        this.storage.clear(this.name, true);
+    }
+
+    /** 用户子命名空间 */
+    public user(userId: number | string): StorageNamespace {
+        return new StorageNamespace(this.storage, `${this.name}:user:${userId}`);
+    }
+
+    /** 群子命名空间 */
+    public group(groupId: number | string): StorageNamespace {
+        return new StorageNamespace(this.storage, `${this.name}:group:${groupId}`);
+    }
+}
+
+function backupDir(): string {
+    return dataFile("backup");
+}
+
+function timestamp(): string {
+    const d = new Date();
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return (
+        `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-` +
+        `${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`
+    );
+}
+
+/**
+ * 内置存储插件，提供备份的导出与导入命令，仅 owner 可用
+ * 备份文件保存在 DATA_DIR/backup 下
+ */
+export function createStoragePlugin(bot: Bot): Plugin {
+    return new Plugin({
+        meta: {
+            name: "storage",
+            version: "1.0.0",
+            description: "插件存储备份",
+        },
+        commands: [
+            createCommand({
+                name: "storage export [plugin]",
+                description: "导出插件存储，不指定插件时导出全部",
+                permission: "owner",
+                args: [z.string().optional().describe("插件名")],
+                handler: (ctx, [pluginName]) => {
+                    const backup = bot.storage.export(pluginName);
+                    const count = Object.values(backup).reduce((n, entries) => n + entries.length, 0);
+                    const name = `storage-${pluginName ?? "all"}-${timestamp()}.json`;
+                    const file = path.join(backupDir(), name);
+                    fs.mkdirSync(backupDir(), { recursive: true });
+                    // 先写临时文件再重命名，避免留下不完整的备份
+                    fs.writeFileSync(`${file}.tmp`, JSON.stringify(backup, null, 4));
+                    fs.renameSync(`${file}.tmp`, file);
+                    ctx.reply.text(`已导出 ${count} 条数据到 ${name}`);
+                },
+            }),
+            createCommand({
+                name: "storage import <file>",
+                description: "从备份文件导入插件存储，已存在的键会被覆盖",
+                permission: "owner",
+                args: [z.string().describe("备份文件名")],
+                handler: (ctx, [name]) => {
+                    // 只允许读取备份目录下的文件
+                    const file = path.join(backupDir(), path.basename(name));
+                    if (!fs.existsSync(file)) {
+                        ctx.reply.text(`备份文件不存在：${name}`);
+                        return;
+                    }
+                    let content: unknown;
+                    try {
+                        content = JSON.parse(fs.readFileSync(file, "utf-8"));
+                    } catch (err) {
+                        ctx.reply.text(`备份文件格式错误：${err}`);
+                        return;
+                    }
+                    const result = storageBackupSchema.safeParse(content);
+                    if (!result.success) {
+                        ctx.reply.text("备份文件格式错误：");
+                        for (const issue of result.error.issues) {
+                            const where = issue.path.length > 0 ? `${issue.path.join(".")}: ` : "";
+                            ctx.reply.text(`\n- ${where}${issue.message}`);
+                        }
+                        return;
+                    }
+                    const count = bot.storage.import(result.data);
+                    ctx.reply.text(`已导入 ${count} 条数据`);
+                },
+            }),
+        ],
+    });
+}
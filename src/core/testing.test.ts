@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { z } from "zod";
+import { createTestHarness } from "./testing";
+import { createCommand } from "./types";
+import { definePlugin } from "./utils";
+
+const survey = definePlugin({
+    meta: { name: "survey", version: "1.0.0" },
+    commands: [
+        createCommand({
+            name: "survey",
+            description: "问卷",
+            handler: async (ctx) => {
+                const name = await ctx.prompt("你叫什么？");
+                const age = await ctx.prompt("你几岁了？", { schema: z.coerce.number().int() });
+                await ctx.reply.text(`${name} ${age}`).commit();
+            },
+        }),
+    ],
+});
+
+describe("TestHarness", () => {
+    test("simulateMessage returns while the handler waits for an answer", async () => {
+        const harness = await createTestHarness({ plugins: [survey] });
+        const asked = await harness.simulateMessage({ text: "survey", userId: 1 });
+        expect(asked).toHaveLength(1);
+        harness.expectReply("你叫什么？");
+
+        await harness.simulateMessage({ text: "Alice", userId: 1 });
+        harness.expectReply("你几岁了？");
+
+        const done = await harness.simulateMessage({ text: "18", userId: 1 });
+        expect(done).toHaveLength(1);
+        harness.expectReply("Alice 18");
+    });
+
+    test("builtin commands are available without plugins", async () => {
+        const harness = await createTestHarness();
+        await harness.simulateMessage({ text: "help" });
+        harness.expectReply("命令列表");
+    });
+
+    test("expectNoReply passes for unknown commands", async () => {
+        const harness = await createTestHarness({ plugins: [survey] });
+        await harness.simulateMessage({ text: "unknown", userId: 1 });
+        harness.expectNoReply();
+    });
+});
+
+const echo = definePlugin({
+    meta: { name: "echo", version: "1.0.0" },
+    commands: [
+        createCommand({
+            name: "echo <text>",
+            description: "复读",
+            args: [z.string()],
+            handler: async (ctx, [text]) => {
+                ctx.reply.recall(10);
+                await ctx.reply.text(text).commit();
+            },
+        }),
+        createCommand({
+            name: "ban",
+            description: "禁言",
+            handler: async (ctx) => {
+                await ctx.client.setGroupBan(ctx.group_id, ctx.sender_id, 60);
+            },
+        }),
+    ],
+    middlewares: [
+        { name: "first", priority: 10, handler: async (ctx, meta, next) => next() },
+        { name: "second", handler: async (ctx, meta, next) => next() },
+    ],
+});
+
+describe("TestHarness assertions", () => {
+    test("records recalls after the timeout", async () => {
+        const harness = await createTestHarness({ plugins: [echo] });
+        const [sent] = await harness.simulateMessage({ text: "echo hi" });
+        harness.expectReply(/^hi$/);
+        await harness.wait(30);
+        harness.expectRecall(sent.message_id);
+    });
+
+    test("records unimplemented API calls", async () => {
+        const harness = await createTestHarness({ plugins: [echo] });
+        await harness.simulateMessage({ text: "ban", userId: 2, groupId: 3 });
+        expect(harness.apiCalls).toContainEqual({ method: "setGroupBan", args: [3, 2, 60] });
+    });
+
+    test("records middleware calls in order and resets them", async () => {
+        const harness = await createTestHarness({ plugins: [echo] });
+        await harness.simulateMessage({ text: "echo hi" });
+        const names = harness.middlewareCalls.map((call) => call.name);
+        expect(names.indexOf("first")).toBeLessThan(names.indexOf("second"));
+        harness.expectMiddlewareOrder(names);
+
+        harness.reset();
+        expect(harness.middlewareCalls).toHaveLength(0);
+        harness.expectNoReply();
+    });
+
+    test("expectReply throws when the text does not match", async () => {
+        const harness = await createTestHarness({ plugins: [echo] });
+        await harness.simulateMessage({ text: "echo hi" });
+        expect(() => harness.expectReply("bye")).toThrow();
+        expect(() => harness.expectNoReply()).toThrow();
+    });
+});
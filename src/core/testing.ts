@@ -0,0 +1,283 @@
+import * as assert from "assert";
+import * as os from "os";
+import { Bot } from "./bot";
+import { Storage } from "./storage";
+import { MessageSegment } from "./reply";
+import {
+    Plugin,
+    BotMiddleware,
+    MiddlewareMeta,
+    MiddlewareSpec,
+    MiddlewareStage,
+    BeforeMiddleware,
+    AfterMiddleware,
+} from "./types";
+import { VirtualClient, SentMessage, ApiCall, createMessageEvent } from "./transport";
+import { renderMessage } from "./console";
+
+export interface TestHarnessOptions {
+    /** 注册到机器人的插件 */
+    plugins?: Plugin[];
+    /** 机器人 QQ */
+    selfId?: number;
+}
+
+export interface SimulateMessageOptions {
+    /** 纯文本消息，设置 segments 时忽略 */
+    text?: string;
+    segments?: MessageSegment[];
+    userId?: number;
+    /** 群号，为 0 或未设置时为私聊 */
+    groupId?: number;
+    role?: "owner" | "admin" | "member";
+    nickname?: string;
+    /** 在消息开头 @ 机器人 */
+    atSelf?: boolean;
+}
+
+export interface MiddlewareCall {
+    name: string;
+    stage: MiddlewareStage;
+    /** before 阶段尚未匹配命令，没有 meta */
+    meta?: MiddlewareMeta;
+}
+
+/**
+ * 插件测试工具
+ *
+ * 使用 VirtualClient 代替 NapLink，记录发送、撤回与其他 API 调用，
+ * simulateMessage 会完整执行 Bot 的消息处理流程并等待其结束，
+ * 处理器通过 ctx.prompt 等待回答时提前返回，可继续模拟用户的回答。
+ */
+export class TestHarness {
+    public bot: Bot;
+    public client: VirtualClient;
+    /** 机器人发送的所有消息 */
+    public sent: SentMessage[] = [];
+    /** 被撤回的消息 ID */
+    public recalls: number[] = [];
+    /** 其他 API 调用 */
+    public apiCalls: ApiCall[] = [];
+    /** 中间件的调用顺序 */
+    public middlewareCalls: MiddlewareCall[] = [];
+    private plugins: Plugin[];
+    /** 处理中的事件 */
+    private inflight = new Set<Promise<void>>();
+    /** 停在会话等待上的处理器数量 */
+    private parked: number = 0;
+    private onPark?: () => void;
+
+    constructor(options: TestHarnessOptions = {}) {
+        this.client = new VirtualClient({ selfId: options.selfId ?? 10000 });
+        this.bot = new Bot(os.tmpdir(), os.tmpdir(), this.client.asNapLink());
+        // 测试使用内存数据库，不写入 DATA_DIR
+        this.bot.storage = new Storage(":memory:");
+        this.client.on("send", (sent: SentMessage) => this.sent.push(sent));
+        this.client.on("delete", (messageId: number) => this.recalls.push(messageId));
+        this.client.on("api", (call: ApiCall) => this.apiCalls.push(call));
+        this.traceMiddleware();
+        this.traceSessions();
+        this.plugins = options.plugins ?? [];
+    }
+
+    /**
+     * 包装 sessions.wait，记录停在会话等待上的处理器
+     */
+    private traceSessions() {
+        const wait = this.bot.sessions.wait.bind(this.bot.sessions);
+        this.bot.sessions.wait = (ctx, timeoutMs) => {
+            const answer = wait(ctx, timeoutMs);
+            this.parked++;
+            this.onPark?.();
+            answer
+                .finally(() => {
+                    this.parked--;
+                })
+                .catch(() => {});
+            return answer;
+        };
+    }
+
+    /**
+     * 包装 useMiddleware，记录每个中间件的调用
+     */
+    private traceMiddleware() {
+        const useMiddleware = this.bot.useMiddleware.bind(this.bot);
+        let index = 0;
+        this.bot.useMiddleware = (
+            middleware: BotMiddleware | MiddlewareSpec,
+            pluginName?: string
+        ) => {
+            const spec: MiddlewareSpec =
+                typeof middleware === "function" ? { handler: middleware } : middleware;
+            const name = spec.name || spec.handler.name || `middleware#${index}`;
+            index++;
+            const calls = this.middlewareCalls;
+            if (spec.stage === "before") {
+                const handler = spec.handler;
+                const traced: BeforeMiddleware = async (ctx, next) => {
+                    calls.push({ name, stage: "before" });
+                    await handler(ctx, next);
+                };
+                useMiddleware({ ...spec, name, handler: traced }, pluginName);
+            } else if (spec.stage === "after") {
+                const handler = spec.handler;
+                const traced: AfterMiddleware = async (ctx, meta) => {
+                    calls.push({ name, stage: "after", meta });
+                    await handler(ctx, meta);
+                };
+                useMiddleware({ ...spec, name, handler: traced }, pluginName);
+            } else {
+                const handler = spec.handler;
+                const traced: BotMiddleware = async (ctx, meta, next) => {
+                    calls.push({ name, stage: "around", meta });
+                    await handler(ctx, meta, next);
+                };
+                useMiddleware({ ...spec, name, handler: traced }, pluginName);
+            }
+        };
+    }
+
+    /**
+     * 注册 options.plugins 并启动机器人，启动前模拟的消息会被忽略
+     */
+    public async start() {
+        for (const plugin of this.plugins) {
+            await this.bot.registerPlugin(plugin);
+        }
+        this.bot.registerCommand();
+        await this.bot.start();
+    }
+
+    public async registerPlugin(plugin: Plugin) {
+        await this.bot.registerPlugin(plugin);
+        this.bot.registerCommand();
+    }
+
+    /**
+     * 模拟一条消息，返回处理过程中机器人发送的消息
+     */
+    public async simulateMessage(options: SimulateMessageOptions): Promise<SentMessage[]> {
+        const message: MessageSegment[] = options.segments
+            ? [...options.segments]
+            : [{ type: "text", data: { text: options.text ?? "" } }];
+        if (options.atSelf) {
+            message.unshift({ type: "at", data: { qq: this.bot.id.toString() } });
+        }
+        const event = createMessageEvent({
+            message,
+            userId: options.userId ?? 10001,
+            groupId: options.groupId,
+            role: options.role,
+            nickname: options.nickname,
+            selfId: this.bot.id,
+            messageId: this.client.nextMessageId(),
+        });
+        return this.simulateEvent(event);
+    }
+
+    /**
+     * 模拟任意 OneBot 事件，返回处理过程中机器人发送的消息
+     * 处理器等待会话回答时即返回，之后模拟的回答会让它继续执行
+     */
+    public async simulateEvent(data: any): Promise<SentMessage[]> {
+        const start = this.sent.length;
+        const dispatch: Promise<void> = this.client.dispatch(data).finally(() => {
+            this.inflight.delete(dispatch);
+        });
+        this.inflight.add(dispatch);
+        await this.settle();
+        return this.sent.slice(start);
+    }
+
+    /**
+     * 等待所有处理中的事件执行完毕，或停在会话等待上
+     */
+    public async settle() {
+        while (this.inflight.size > this.parked) {
+            const parked = new Promise<void>((resolve) => (this.onPark = resolve));
+            await Promise.race([...this.inflight, parked]);
+        }
+        this.onPark = undefined;
+    }
+
+    /**
+     * 等待指定毫秒，用于等待延时撤回
+     */
+    public async wait(ms: number) {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    /** 最后一条发送的消息 */
+    public get lastReply(): SentMessage | undefined {
+        return this.sent[this.sent.length - 1];
+    }
+
+    /**
+     * 断言最后一条回复的文本，字符串时要求包含该内容
+     */
+    public expectReply(expected: string | RegExp) {
+        const reply = this.lastReply;
+        assert.ok(reply, "Expected a reply, but nothing was sent");
+        const text = renderMessage(reply.message);
+        if (typeof expected === "string") {
+            assert.ok(
+                text.includes(expected),
+                `Expected reply to include "${expected}", got "${text}"`
+            );
+        } else {
+            assert.match(text, expected);
+        }
+    }
+
+    public expectNoReply() {
+        assert.strictEqual(
+            this.sent.length,
+            0,
+            `Expected no reply, got: ${this.sent.map((s) => renderMessage(s.message)).join(" | ")}`
+        );
+    }
+
+    /**
+     * 断言消息已被撤回，不传参数时断言至少有一次撤回
+     */
+    public expectRecall(messageId?: number) {
+        if (messageId === undefined) {
+            assert.ok(this.recalls.length > 0, "Expected a message to be recalled");
+        } else {
+            assert.ok(
+                this.recalls.includes(messageId),
+                `Expected message #${messageId} to be recalled, got [${this.recalls.join(", ")}]`
+            );
+        }
+    }
+
+    /**
+     * 断言中间件按给定顺序执行，名称取自中间件函数名
+     */
+    public expectMiddlewareOrder(names: string[]) {
+        assert.deepStrictEqual(
+            this.middlewareCalls.map((call) => call.name),
+            names
+        );
+    }
+
+    /**
+     * 清空记录，保留已注册的插件
+     */
+    public reset() {
+        this.sent = [];
+        this.recalls = [];
+        this.apiCalls = [];
+        this.middlewareCalls = [];
+    }
+}
+
+/**
+ * 创建并启动测试工具
+ */
+export async function createTestHarness(options: TestHarnessOptions = {}): Promise<TestHarness> {
+    const harness = new TestHarness(options);
+    await harness.start();
+    return harness;
+}
@@ -0,0 +1,288 @@
+import { EventEmitter } from "events";
+import { NapLink } from "@naplink/naplink";
+import { withScope } from "./logger";
+import type { MessageSegment } from "./reply";
+
+/**
+ * 创建连接 NapCat 的 NapLink 客户端
+ * 连接地址与令牌读取自 NAPCAT_URL / NAPCAT_TOKEN
+ */
+export function createNapLinkClient(): NapLink {
+    const logger = withScope("NapLink");
+    return new NapLink({
+        connection: {
+            url: process.env.NAPCAT_URL || "ws://localhost:3001",
+            token: process.env.NAPCAT_TOKEN,
+        },
+        logging: {
+            logger: {
+                debug: function (message: string, ...meta: any[]): void {
+                    logger.debug(message, ...meta);
+                },
+                info: function (message: string, ...meta: any[]): void {
+                    logger.info(message, ...meta);
+                },
+                warn: function (message: string, ...meta: any[]): void {
+                    logger.warn(message, ...meta);
+                },
+                error: function (message: string, error?: Error, ...meta: any[]): void {
+                    logger.error(message, error, ...meta);
+                },
+            },
+        },
+    });
+}
+
+export interface SentMessage {
+    message_id: number;
+    /** 群聊时为 group，私聊时为 private */
+    type: "group" | "private";
+    /** 群号或用户 QQ */
+    target: number;
+    message: MessageSegment[];
+}
+
+export interface ApiCall {
+    method: string;
+    args: any[];
+}
+
+export interface MessageEventOptions {
+    message: MessageSegment[];
+    userId: number;
+    /** 群号，为 0 或未设置时为私聊 */
+    groupId?: number;
+    role?: "owner" | "admin" | "member";
+    nickname?: string;
+    selfId?: number;
+    messageId?: number;
+}
+
+/**
+ * 构造一个 OneBot 消息事件
+ */
+export function createMessageEvent(options: MessageEventOptions): any {
+    const isGroup = !!options.groupId;
+    return {
+        time: Math.floor(Date.now() / 1000),
+        self_id: options.selfId ?? 0,
+        post_type: "message",
+        message_type: isGroup ? "group" : "private",
+        sub_type: isGroup ? "normal" : "friend",
+        message_id: options.messageId ?? 0,
+        user_id: options.userId,
+        group_id: isGroup ? options.groupId : undefined,
+        message: options.message,
+        raw_message: options.message
+            .map((seg) => (seg.type === "text" ? seg.data.text : `[${seg.type}]`))
+            .join(""),
+        font: 0,
+        sender: {
+            user_id: options.userId,
+            nickname: options.nickname ?? options.userId.toString(),
+            role: isGroup ? options.role ?? "member" : undefined,
+        },
+    };
+}
+
+export interface VirtualClientOptions {
+    selfId?: number;
+    nickname?: string;
+}
+
+/**
+ * 内存中的虚拟客户端，不连接 NapCat
+ *
+ * 通过 receive() 注入事件，发送的消息以 send 事件抛出，
+ * 未实现的 API 方法与 action 以 api 事件抛出并返回 undefined。
+ * 用于控制台调试与插件测试。
+ */
+export class VirtualClient extends EventEmitter {
+    public selfId: number;
+    public nickname: string;
+    private messageId: number = 0;
+
+    constructor(options: VirtualClientOptions = {}) {
+        super();
+        this.selfId = options.selfId ?? 10000;
+        this.nickname = options.nickname ?? "paowa";
+    }
+
+    public nextMessageId(): number {
+        return ++this.messageId;
+    }
+
+    public async connect() {
+        this.emit("connect");
+    }
+
+    public disconnect() {
+        this.emit("disconnect");
+    }
+
+    public isConnected(): boolean {
+        return true;
+    }
+
+    public async getLoginInfo() {
+        return { user_id: this.selfId, nickname: this.nickname };
+    }
+
+    /**
+     * 与 NapLink 相同，所有 action 都经过 apiClient.call，出站管道替换的也是这里
+     */
+    public apiClient = {
+        call: (action: string, params: any = {}) => this.handleAction(action, params),
+    };
+
+    public async callApi(method: string, params: any = {}) {
+        return this.apiClient.call(method, params);
+    }
+
+    public async sendMessage(params: {
+        message_type?: "private" | "group";
+        user_id?: number | string;
+        group_id?: number | string;
+        message: MessageSegment[] | string;
+    }) {
+        return this.apiClient.call("send_msg", params);
+    }
+
+    public async sendForwardMsg(params: {
+        group_id?: number | string;
+        user_id?: number | string;
+        messages: MessageSegment[];
+    }) {
+        return this.apiClient.call("send_forward_msg", params);
+    }
+
+    public async sendGroupMessage(groupId: number | string, message: MessageSegment[]) {
+        return this.apiClient.call("send_group_msg", { group_id: groupId, message });
+    }
+
+    public async sendPrivateMessage(userId: number | string, message: MessageSegment[]) {
+        return this.apiClient.call("send_private_msg", { user_id: userId, message });
+    }
+
+    public async sendGroupForwardMessage(groupId: number | string, messages: MessageSegment[]) {
+        return this.apiClient.call("send_group_forward_msg", { group_id: groupId, messages });
+    }
+
+    public async sendPrivateForwardMessage(params: {
+        user_id: number | string;
+        messages: MessageSegment[];
+    }) {
+        return this.apiClient.call("send_private_forward_msg", params);
+    }
+
+    public async sendPoke(targetId: number | string, groupId?: number | string) {
+        return this.apiClient.call(
+            "send_poke",
+            groupId ? { group_id: groupId, target_id: targetId } : { user_id: targetId }
+        );
+    }
+
+    public async sendGroupPoke(groupId: number | string, userId: number | string) {
+        return this.apiClient.call("group_poke", { group_id: groupId, user_id: userId });
+    }
+
+    public async sendFriendPoke(userId: number | string) {
+        return this.apiClient.call("friend_poke", { user_id: userId });
+    }
+
+    public async deleteMessage(messageId: number | string) {
+        return this.apiClient.call("delete_msg", { message_id: messageId });
+    }
+
+    /**
+     * 执行 action：发送与撤回消息时抛出 send、delete 事件，其余以 api 事件抛出
+     */
+    private async handleAction(action: string, params: any): Promise<any> {
+        switch (action) {
+            case "send_msg":
+            case "send_group_msg":
+            case "send_private_msg":
+            case "send_forward_msg":
+            case "send_group_forward_msg":
+            case "send_private_forward_msg": {
+                const isGroup = action.startsWith("send_group")
+                    ? true
+                    : action.startsWith("send_private")
+                    ? false
+                    : params.message_type
+                    ? params.message_type === "group"
+                    : params.group_id !== undefined;
+                return this.record(
+                    isGroup ? "group" : "private",
+                    Number(isGroup ? params.group_id : params.user_id),
+                    params.messages ?? params.message
+                );
+            }
+            case "delete_msg":
+                this.emit("delete", Number(params.message_id));
+                return;
+            default: {
+                const call: ApiCall = { method: action, args: [params] };
+                this.emit("api", call);
+                return undefined;
+            }
+        }
+    }
+
+    private record(type: SentMessage["type"], target: number, message: MessageSegment[] | string) {
+        // 不解析 CQ 码，字符串消息按纯文本记录
+        if (typeof message === "string") message = [{ type: "text", data: { text: message } }];
+        const sent: SentMessage = { message_id: this.nextMessageId(), type, target, message };
+        this.emit("send", sent);
+        return { message_id: sent.message_id };
+    }
+
+    private routeEvent(data: any): string[] {
+        const events: string[] = [data.post_type];
+        const detail =
+            data.message_type ?? data.notice_type ?? data.request_type ?? data.meta_event_type;
+        if (detail) {
+            events.push(`${data.post_type}.${detail}`);
+            if (data.sub_type) events.push(`${data.post_type}.${detail}.${data.sub_type}`);
+        }
+        return events;
+    }
+
+    /**
+     * 注入一个 OneBot 事件，按 NapLink 的规则派发事件名
+     */
+    public receive(data: any) {
+        for (const event of this.routeEvent(data)) {
+            this.emit(event, data);
+        }
+    }
+
+    /**
+     * 与 receive 相同，但会依次等待所有监听器执行完毕
+     */
+    public async dispatch(data: any) {
+        for (const event of this.routeEvent(data)) {
+            for (const listener of this.listeners(event)) {
+                await listener.call(this, data);
+            }
+        }
+    }
+
+    /**
+     * 以 NapLink 的类型暴露，供 Bot 使用
+     */
+    public asNapLink(): NapLink {
+        return new Proxy(this, {
+            get(target, prop, receiver) {
+                if (prop in target) return Reflect.get(target, prop, receiver);
+                // then 需返回 undefined，避免被当作 Promise
+                if (typeof prop !== "string" || prop === "then") return undefined;
+                return async (...args: any[]) => {
+                    const call: ApiCall = { method: prop, args };
+                    target.emit("api", call);
+                    return undefined;
+                };
+            },
+        }) as unknown as NapLink;
+    }
+}
@@ -1,12 +1,14 @@
 import { Bot, Context } from "./bot";
+import type { MessageSegment } from "./reply";
 
 /**
  * 用户权限等级（从低到高）
  * - user: 普通用户，可执行基础命令
  * - admin: 管理员，可执行管理类命令
- * - owner: 所有者/群主，拥有最高权限
+ * - owner: 所有者/群主
+ * - superuser: 超级用户，拥有最高权限，用于管理整个机器人的命令
  */
-export type PermissionLevel = "user" | "admin" | "owner";
+export type PermissionLevel = "user" | "admin" | "owner" | "superuser";
 
 /**
  * 消息作用域
@@ -49,11 +51,198 @@ export interface CommandPermissionConfig {
     disabled?: boolean;
 }
 
+/**
+ * 群组级别的禁用配置
+ */
+export interface GroupPermissionConfig {
+    /** 是否在该群禁用机器人 */
+    disabled?: boolean;
+    /** 在该群禁用的插件名列表 */
+    disabledPlugins?: string[];
+    /** 在该群禁用的命令名列表，命令名不含参数，也可以是别名，例如 "ban"、"plugin list" */
+    disabledCommands?: string[];
+}
+
+/**
+ * 全局权限配置，对应 CommandPermissionConfig 优先级中的全局部分
+ */
+export interface PermissionConfig {
+    /** 超级用户，拥有 superuser 等级 */
+    superusers: number[];
+    /** 全局管理员，视为 admin 等级 */
+    admins: number[];
+    /** 全局黑名单用户 */
+    blacklistedUsers: number[];
+    /** 全局黑名单群组 */
+    blacklistedGroups: number[];
+    /** 全局禁用的插件名列表，插件的命令、监听器、定时任务与中间件都不再执行 */
+    disabledPlugins: string[];
+    /** 全局禁用的命令名列表，写法同 GroupPermissionConfig.disabledCommands */
+    disabledCommands: string[];
+    /** 群组禁用配置，键为群号 */
+    groups: Record<string, GroupPermissionConfig>;
+    /** 命令被拒绝时是否回复提示 */
+    replyOnDeny: boolean;
+}
+
+/**
+ * 限流配置，基于令牌桶：每 per 秒恢复 capacity 次
+ * 冷却时间 N 秒即 { capacity: 1, per: N }
+ */
+export interface RateLimitConfig {
+    /**
+     * 限流范围
+     * - user: 每个用户独立计数（默认）
+     * - group: 每个群独立计数，私聊按用户计数
+     * - global: 所有人共享
+     */
+    scope?: "user" | "group" | "global";
+    /** 桶容量，即允许的连续次数，默认 1 */
+    capacity?: number;
+    /** 恢复满桶所需的秒数 */
+    per: number;
+    /** 达到该权限等级可跳过限流，默认使用全局配置，false 表示不允许跳过 */
+    bypass?: PermissionLevel | false;
+}
+
+/**
+ * 全局限流配置
+ */
+export interface RateLimitGlobalConfig {
+    /** 被限流时的回复，{seconds} 会被替换为剩余秒数，为空时不回复 */
+    message: string;
+    /** 达到该权限等级可跳过限流 */
+    bypass: PermissionLevel | false;
+}
+
+/**
+ * 会话配置
+ */
+export interface SessionConfig {
+    /** 等待回答的默认超时（毫秒） */
+    timeoutMs: number;
+    /** 回答无效时的默认重试次数 */
+    retries: number;
+    /** 取消会话的关键词 */
+    cancelKeywords: string[];
+    messages: {
+        cancel: string;
+        timeout: string;
+        retry: string;
+        /** {error} 会被替换为校验错误 */
+        invalid: string;
+    };
+}
+
+/**
+ * 命令触发配置
+ */
+export interface CommandTriggerConfig {
+    /** 命令前缀，例如 ["/", "!"]，为空时不需要前缀，包含 "" 时前缀可省略 */
+    prefixes: string[];
+    /** 群聊中是否需要 @ 机器人才响应命令 */
+    requireAt: boolean;
+}
+
+export interface CommandConfig extends CommandTriggerConfig {
+    /** 群组覆盖配置，键为群号 */
+    groups: Record<string, Partial<CommandTriggerConfig>>;
+}
+
+/**
+ * 超长回复的处理配置，只计算文本消息段
+ */
+export interface LongMessageConfig {
+    /**
+     * 超过限制时的处理方式
+     * - split: 拆分为多条消息依次发送
+     * - forward: 折叠为一条合并转发消息
+     * - none: 原样发送
+     */
+    mode: "split" | "forward" | "none";
+    /** 单条消息的最大字符数 */
+    maxLength: number;
+    /** 单条消息的最大行数 */
+    maxLines: number;
+    /** split 模式下拆分后超过该条数时改为合并转发，0 表示不限制 */
+    maxSplits: number;
+}
+
+/**
+ * 回复配置
+ */
+export interface ReplyConfig {
+    /** 群聊回复时总是引用触发的消息 */
+    quote: boolean;
+    longMessage: LongMessageConfig;
+    /** 群组覆盖配置，键为群号 */
+    groups: Record<string, { quote?: boolean }>;
+}
+
+/**
+ * 机器人核心配置，保存在配置目录下的 paowa.json
+ */
+export interface BotConfig {
+    permission: PermissionConfig;
+    command: CommandConfig;
+    rateLimit: RateLimitGlobalConfig;
+    session: SessionConfig;
+    reply: ReplyConfig;
+}
+
+export function defaultBotConfig(): BotConfig {
+    return {
+        permission: {
+            superusers: [],
+            admins: [],
+            blacklistedUsers: [],
+            blacklistedGroups: [],
+            disabledPlugins: [],
+            disabledCommands: [],
+            groups: {},
+            replyOnDeny: true,
+        },
+        command: {
+            prefixes: [],
+            requireAt: false,
+            groups: {},
+        },
+        rateLimit: {
+            message: "操作太频繁，请 {seconds} 秒后再试",
+            bypass: "admin",
+        },
+        session: {
+            timeoutMs: 60000,
+            retries: 3,
+            cancelKeywords: ["取消", "cancel"],
+            messages: {
+                cancel: "已取消",
+                timeout: "等待超时，已取消",
+                retry: "输入无效次数过多，已取消",
+                invalid: "输入无效：{error}，请重新输入",
+            },
+        },
+        reply: {
+            quote: false,
+            longMessage: {
+                mode: "split",
+                maxLength: 2000,
+                maxLines: 30,
+                maxSplits: 3,
+            },
+            groups: {},
+        },
+    };
+}
+
 export interface MiddlewareMeta {
     type: "command" | "message";
     pluginName: string;
     commandName?: string;
+    /** 命令的别名，禁用命令时与命令名一同匹配 */
+    commandAliases?: string[];
     permission?: CommandPermissionConfig | PermissionLevel;
+    rateLimit?: RateLimitConfig;
     args?: any;
 }
 
@@ -63,15 +252,73 @@ export type BotMiddleware = (
     next: () => Promise<void>
 ) => Promise<void>;
 
-export interface Listener {
-    event: string;
-    handler: (ctx: any) => Promise<void> | void;
+/**
+ * 中间件的执行阶段
+ * - before：匹配命令与消息处理器之前，每条消息都会经过，不调用 next 时消息不再处理
+ * - around：包裹命令或消息处理器的执行，权限检查通过后调用
+ * - after：处理器执行完毕并发送回复之后调用
+ */
+export type MiddlewareStage = "before" | "around" | "after";
+
+export type BeforeMiddleware = (ctx: Context, next: () => Promise<void>) => Promise<void>;
+export type AfterMiddleware = (ctx: Context, meta: MiddlewareMeta) => Promise<void> | void;
+
+interface MiddlewareOptions {
+    /** 用于调试输出，默认为函数名 */
+    name?: string;
+    /** 数值越大越先执行，默认 0，相同优先级按注册顺序执行 */
+    priority?: number;
+}
+
+export type MiddlewareSpec =
+    | (MiddlewareOptions & { stage: "before"; handler: BeforeMiddleware })
+    | (MiddlewareOptions & { stage?: "around"; handler: BotMiddleware })
+    | (MiddlewareOptions & { stage: "after"; handler: AfterMiddleware });
+
+/** 中间件链中的一项，通过 bot.listMiddlewares() 获取 */
+export interface ActiveMiddleware {
+    name: string;
+    stage: MiddlewareStage;
+    priority: number;
+    /** 所属插件，通过 useMiddleware 直接注册的为空 */
+    pluginName?: string;
+}
+
+/**
+ * 即将发送的消息，出站中间件可修改其中的字段
+ */
+export interface OutgoingMessage {
+    type: "group" | "private";
+    /** 群号或 QQ 号 */
+    target: number;
+    /** 直接发送字符串时保持为字符串，是否按 CQ 码解析由 auto_escape 决定 */
+    message: MessageSegment[] | string;
+}
+
+/**
+ * 出站中间件，所有通过客户端发送的消息都会经过，不调用 next 时消息不会发送
+ */
+export type OutboundMiddleware = (message: OutgoingMessage, next: () => Promise<void>) => Promise<void>;
+
+export interface OutboundMiddlewareSpec extends MiddlewareOptions {
+    handler: OutboundMiddleware;
+}
+
+/**
+ * 事件监听器，event 为 NapLink 的事件名，例如 notice.group_increase、request.friend
+ */
+export interface Listener<E extends string = string> {
+    event: E;
+    handler: (ctx: ListenerContext<E>) => Promise<void> | void;
 }
 
 export interface MessageHandler {
     scope: Scope;
     handler: (ctx: Context) => Promise<void | boolean> | void | boolean;
     permission?: CommandPermissionConfig;
+    /** 冷却时间（秒），按用户计算，等同于 rateLimit: { per: cooldown } */
+    cooldown?: number;
+    rateLimit?: RateLimitConfig;
 }
 
 export interface PluginMeta {
@@ -79,48 +326,162 @@ export interface PluginMeta {
     version: string;
     description?: string;
     scope?: Scope;
+    /**
+     * 依赖的插件名或服务，依赖加载后才会加载该插件，依赖重载时该插件也会重载
+     */
+    dependencies?: ServiceRef[];
+    /**
+     * 插件通过 bot.registerService 提供的服务，插件卸载时这些服务会被移除
+     */
+    provides?: ServiceRef[];
 }
 
-export interface PluginSpec {
+/**
+ * 服务令牌，通过 defineService 创建，getService 会返回令牌声明的类型
+ */
+export interface ServiceToken<T> {
+    readonly name: string;
+    /** 仅用于类型推断，运行时不存在 */
+    readonly __type?: T;
+}
+
+export type ServiceRef = string | ServiceToken<any>;
+
+export function serviceName(ref: ServiceRef): string {
+    return typeof ref === "string" ? ref : ref.name;
+}
+
+/**
+ * 定时任务
+ * 设置 cron 时为周期任务，随插件加载启动；
+ * 未设置 cron 时可通过 bot.scheduler.once(插件名, name, 时间, payload) 创建持久化的一次性任务
+ */
+export interface ScheduleSpec {
+    /** 任务名，同一插件内唯一 */
+    name: string;
+    /** cron 表达式：分 时 日 月 星期，例如 "0 9 * * 1-5" */
+    cron?: string;
+    /** IANA 时区，例如 "Asia/Shanghai"，默认使用系统时区 */
+    timezone?: string;
+    handler: (bot: Bot, payload?: any) => void | Promise<void>;
+}
+
+/** 插件配置 schema，未设置时配置为 any */
+export type ConfigSchema = z.ZodType<any> | undefined;
+export type PluginConfig<S extends ConfigSchema> = S extends z.ZodType<any> ? z.output<S> : any;
+
+export interface PluginSpec<S extends ConfigSchema = any> {
     meta: PluginMeta;
-    commands?: Command<any>[];
-    listeners?: Listener[];
+    commands?: Command<any, any>[];
+    listeners?: Listener<any>[];
     messageHandlers?: MessageHandler[];
-    config?: any;
-    onLoad?: (bot: Bot) => void;
-    onUnload?: () => void;
+    /** 插件的中间件，插件注销时自动移除 */
+    middlewares?: MiddlewareSpec[];
+    /** 插件的出站中间件，插件注销时自动移除 */
+    outbound?: OutboundMiddlewareSpec[];
+    schedules?: ScheduleSpec[];
+    /**
+     * 配置的 zod schema，加载与热重载时校验配置文件，并用 schema 中的默认值补全
+     * 校验失败时保留上一次有效的配置
+     */
+    configSchema?: S;
+    /** 默认配置，设置了 configSchema 时会与 schema 的默认值合并 */
+    config?: Partial<PluginConfig<S>>;
+    /**
+     * 允许群管理员在群内修改的配置项，支持 "a.b" 形式的嵌套键
+     * 群配置保存在 config/<插件名>/groups/<群号>.json
+     */
+    groupConfigKeys?: string[];
+    /** 插件注册时调用，返回 Promise 时等待其完成后插件才开始处理消息 */
+    onLoad?: (bot: Bot) => void | Promise<void>;
+    /** 插件注销时调用，返回 Promise 时等待其完成 */
+    onUnload?: () => void | Promise<void>;
+    /**
+     * 机器人连接成功并获取登录信息后调用，此时 bot.id 与 bot.nickname 可用
+     * 机器人启动后才加载的插件会在注册后立即调用
+     */
+    onReady?: (bot: Bot) => void | Promise<void>;
+    /**
+     * 配置文件变化并通过校验后调用，可在此重建客户端或清理缓存
+     * 删除配置文件时 newConfig 为默认配置
+     */
+    onConfigChange?: (
+        newConfig: PluginConfig<S>,
+        oldConfig: PluginConfig<S>
+    ) => void | Promise<void>;
 }
-export class Plugin implements PluginSpec {
+export class Plugin<S extends ConfigSchema = any> implements PluginSpec<S> {
     meta: PluginMeta;
-    commands: Command<any>[];
-    listeners: Listener[];
+    commands: Command<any, any>[];
+    listeners: Listener<any>[];
     messageHandlers: MessageHandler[];
-    config?: any;
-    onLoad?: ((bot: Bot) => void) | undefined;
-    onUnload?: (() => void) | undefined;
+    middlewares: MiddlewareSpec[];
+    outbound: OutboundMiddlewareSpec[];
+    schedules: ScheduleSpec[];
+    /** 插件的持久化存储，插件注册后可用 */
+    storage!: StorageNamespace;
+    configSchema?: S;
+    /** 当前生效的配置，由 ConfigLoader 在加载时注入 */
+    config: PluginConfig<S>;
+    /** spec 中声明的默认配置 */
+    defaultConfig?: Partial<PluginConfig<S>>;
+    groupConfigKeys: string[];
+    /** 各群生效的配置（全局配置与群配置合并后），由 ConfigLoader 维护 */
+    groupConfigs: Map<number, PluginConfig<S>> = new Map();
+    onLoad?: PluginSpec<S>["onLoad"];
+    onUnload?: PluginSpec<S>["onUnload"];
+    onReady?: PluginSpec<S>["onReady"];
+    onConfigChange?: PluginSpec<S>["onConfigChange"];
     logger: Logger;
 
-    constructor(spec: PluginSpec) {
+    constructor(spec: PluginSpec<S>) {
         this.meta = spec.meta;
         this.commands = spec.commands ?? [];
         this.listeners = spec.listeners ?? [];
         this.messageHandlers = spec.messageHandlers ?? [];
-        this.config = spec.config ?? undefined;
+        this.middlewares = spec.middlewares ?? [];
+        this.outbound = spec.outbound ?? [];
+        this.schedules = spec.schedules ?? [];
+        this.configSchema = spec.configSchema;
+        this.defaultConfig = spec.config;
+        this.groupConfigKeys = spec.groupConfigKeys ?? [];
+        this.config = spec.config as PluginConfig<S>;
         this.onLoad = spec.onLoad ?? undefined;
         this.onUnload = spec.onUnload ?? undefined;
+        this.onReady = spec.onReady;
+        this.onConfigChange = spec.onConfigChange;
         this.logger = withScope(this.meta.name);
     }
+
+    /**
+     * 获取群中生效的配置，没有群配置时返回全局配置
+     */
+    public configFor(groupId?: number): PluginConfig<S> {
+        return (groupId && this.groupConfigs.get(groupId)) || this.config;
+    }
 }
 
-export type Command<T> = {
+export type Command<T, O = undefined> = {
     name: string;
     basename: string;
     root: string;
     description: string;
+    /** 命令别名，仅包含命令名部分，参数沿用原命令，例如 "掷骰" 之于 "roll [max]" */
+    aliases?: string[];
     args?: T;
+    /**
+     * 命令选项，键名即选项名（驼峰转为短横线），布尔类型为开关
+     * 例如 z.object({ times: z.coerce.number().meta({ alias: "n" }) }) 对应 -n, --times <times>
+     */
+    options?: O;
     scope?: Scope;
     permission?: CommandPermissionConfig | PermissionLevel;
-    handler: (ctx: Context, args: InferArgs<T>) => void | Promise<void>;
+    /** 冷却时间（秒），按用户计算，等同于 rateLimit: { per: cooldown } */
+    cooldown?: number;
+    rateLimit?: RateLimitConfig;
+    /** 所属插件名，由 Bot.registerCommand 填充 */
+    pluginName?: string;
+    handler: (ctx: Context, args: InferArgs<T>, options: InferArgs<O>) => void | Promise<void>;
 };
 
 type InferArgs<T> = T extends any[]
@@ -131,10 +492,13 @@ type InferArgs<T> = T extends any[]
 
 import { z } from "zod";
 import { Logger, withScope } from "./logger";
+import type { EventName, ListenerContext } from "./event";
+import type { StorageNamespace } from "./storage";
 
 export function createCommand<
-    T extends z.ZodType<any> | [z.ZodType<any>, ...z.ZodType<any>[]] | undefined
->(cmd: Omit<Command<T>, "basename" | "root" | "logger">) {
+    T extends z.ZodType<any> | [z.ZodType<any>, ...z.ZodType<any>[]] | undefined,
+    O extends z.ZodObject<any> | undefined = undefined
+>(cmd: Omit<Command<T, O>, "basename" | "root" | "pluginName">) {
     const defaultScope = cmd.scope ?? "all";
 
     let permission: CommandPermissionConfig | undefined;
@@ -152,7 +516,36 @@ export function createCommand<
         root: basename.split(" ")[0],
         scope: defaultScope,
         permission,
-    } as Command<T>; // 强制断言回完整的 Command 类型
+        rateLimit: normalizeRateLimit(cmd),
+    } as Command<T, O>; // 强制断言回完整的 Command 类型
+}
+
+/**
+ * 合并 cooldown 与 rateLimit，cooldown 仅在未设置 rateLimit 时生效
+ * rateLimit 的 per 不大于 0 或 capacity 小于 1 时抛出错误
+ */
+export function normalizeRateLimit(target: {
+    cooldown?: number;
+    rateLimit?: RateLimitConfig;
+}): RateLimitConfig | undefined {
+    if (target.rateLimit) {
+        const { per, capacity } = target.rateLimit;
+        if (!(per > 0)) {
+            throw new Error(`Invalid rate limit: per must be greater than 0, got ${per}`);
+        }
+        if (capacity !== undefined && !(capacity >= 1)) {
+            throw new Error(`Invalid rate limit: capacity must be at least 1, got ${capacity}`);
+        }
+        return target.rateLimit;
+    }
+    if (target.cooldown && target.cooldown > 0) return { per: target.cooldown };
+    return undefined;
+}
+
+export function createListener<E extends EventName | (string & {})>(
+    listener: Listener<E>
+): Listener<NoInfer<E>> {
+    return listener;
 }
 
 export function parseCommandBasename(name: string): string {
@@ -1,10 +1,20 @@
 import path from "path";
-import { Plugin, PluginSpec } from "./types";
+import { ConfigSchema, Plugin, PluginSpec, ServiceToken } from "./types";
 
-export function definePlugin(plugin: PluginSpec): Plugin {
+export function definePlugin<S extends ConfigSchema = undefined>(plugin: PluginSpec<S>): Plugin<S> {
     return new Plugin(plugin);
 }
 
+/**
+ * 创建服务令牌，提供方与使用方共享同一个令牌即可获得类型
+ * @example
+ * export const Database = defineService<DatabaseClient>("database");
+ * bot.getService(Database); // DatabaseClient | undefined
+ */
+export function defineService<T>(name: string): ServiceToken<T> {
+    return { name };
+}
+
 export function cacheFile(filePath: string): string {
     return path.resolve(path.join(process.cwd(), process.env.CACHE_DIR || "cache", filePath));
 }